@@ -0,0 +1,61 @@
+import { existsSync, realpathSync, statSync } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+
+// ─── Directory allowlist ───────────────────────────────────────────
+// A server shared over HTTP may only touch projects below the directories
+// it was started with (--allow-dir). Paths are compared after resolving
+// symlinks, so a link inside an allowed directory cannot lead out of it.
+
+/** Real path of `path`, or of its nearest existing ancestor plus the rest. */
+function realPath(path: string): string {
+  if (existsSync(path)) return realpathSync(path);
+  const parent = dirname(path);
+  if (parent === path) return path;
+  return join(realPath(parent), relative(parent, path));
+}
+
+const isWithin = (path: string, root: string) => {
+  const rel = relative(root, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+};
+
+/** Check and normalise the --allow-dir values. Throws on a missing directory. */
+export function parseAllowedDirs(dirs: string[]): string[] {
+  return dirs.map((dir) => {
+    const abs = resolve(dir);
+    if (!existsSync(abs) || !statSync(abs).isDirectory()) {
+      throw new Error(`--allow-dir ${dir}: not a directory`);
+    }
+    return realpathSync(abs);
+  });
+}
+
+/**
+ * Resolve a path argument. With an allowlist, throws unless the path is
+ * one of the allowed directories or inside one.
+ */
+export function resolveAllowed(path: string, allowedDirs?: string[]): string {
+  const abs = resolve(path);
+  if (!allowedDirs) return abs;
+  const real = realPath(abs);
+  if (allowedDirs.some((root) => isWithin(real, root))) return abs;
+  throw new Error(
+    `${abs} is outside the directories this server may use: ${allowedDirs.join(", ")}`
+  );
+}
+
+/** The directory a git URL points at when it names a local repository. */
+export function localGitPath(url: string): string | null {
+  if (url.startsWith("file://")) return new URL(url).pathname;
+  return /^(\/|\.|[A-Za-z]:[\\/])/.test(url) ? url : null;
+}
+
+/** Whether a path is inside the allowlist (always true without one). */
+export function isAllowed(path: string, allowedDirs?: string[]): boolean {
+  try {
+    resolveAllowed(path, allowedDirs);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,411 @@
+import { randomBytes } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join, relative, resolve, sep } from "node:path";
+import { commandExists, plan, run } from "./exec.js";
+import {
+  GradleDocument,
+  ensureBlock,
+  ensureCall,
+  ensureImport,
+  ensureProperty,
+  ensureStatements,
+  hasBlock,
+  parseGradle,
+  removeLine,
+} from "./gradle.js";
+import { TextEdit } from "./ios.js";
+import { readPackageName } from "./project.js";
+import {
+  BuildTypeSpec,
+  loadManifest,
+  mergeBuildTypes,
+  toDisplayName,
+} from "./template.js";
+
+// ─── Android build types and release signing ───────────────────────
+// Step configure-android and configure_android_signing set up each build
+// type in android/app/build.gradle.kts — signing config, code and resource
+// shrinking — and wire a `release` signing config to android/key.properties.
+// That file and the keystore it names stay out of Git; until they exist,
+// build types signed with the release key fall back to the debug key.
+
+export interface BuildTypeSettings {
+  /** Code shrinking and obfuscation with R8 (isMinifyEnabled). */
+  minify: boolean;
+  /** Resource shrinking (isShrinkResources); needs minify. */
+  shrink: boolean;
+  /** Key to sign with; null leaves the build type's signingConfig alone. */
+  signing: "debug" | "release" | null;
+}
+
+export interface ReleaseKeySettings {
+  /** Existing keystore to sign with; a new one is generated when omitted. */
+  keystore?: string;
+  /** Key alias (default: upload). */
+  alias?: string;
+  /** Keystore and key password; required with keystore, random otherwise. */
+  password?: string;
+  /** Distinguished name of a generated key (default: CN=<app display name>). */
+  dname?: string;
+  /** Validity of a generated key in days (default: 10000). */
+  validityDays?: number;
+}
+
+export const GRADLE_FILE = join("android", "app", "build.gradle.kts");
+export const KEY_PROPERTIES_FILE = join("android", "key.properties");
+/** Where a generated keystore goes; android/.gitignore keeps it out of Git. */
+export const GENERATED_KEYSTORE = join("android", "upload-keystore.jks");
+export const ANDROID_GITIGNORE = join("android", ".gitignore");
+
+const GITIGNORE_ENTRIES = ["key.properties", "**/*.keystore", "**/*.jks"];
+const DEFAULT_ALIAS = "upload";
+const DEFAULT_VALIDITY_DAYS = 10000;
+/** Hands keytool the password, so it stays off the command line and out of the audit log. */
+const PASSWORD_ENV = "MTDEVKIT_KEYSTORE_PASSWORD";
+
+const KEYSTORE_LOADER = `val keystoreProperties = Properties()
+val keystorePropertiesFile = rootProject.file("key.properties")
+if (keystorePropertiesFile.exists()) {
+    keystoreProperties.load(FileInputStream(keystorePropertiesFile))
+}`;
+
+const RELEASE_SIGNING_CONFIG = [
+  "android",
+  "signingConfigs",
+  'create("release")',
+];
+
+const SIGNING_CONFIGS = {
+  debug: 'signingConfigs.getByName("debug")',
+  release:
+    'if (keystorePropertiesFile.exists()) signingConfigs.getByName("release") else signingConfigs.getByName("debug")',
+};
+
+/** Flutter's template comment in the release block; stale once signing is set. */
+const SIGNING_TODO =
+  "// TODO: Add your own signing config for the release build.";
+
+/**
+ * Header of a build type's block — `release`, `getByName("release")` or
+ * `create("staging")` — creating the block if there is none.
+ */
+function buildTypeHeader(doc: GradleDocument, name: string): string {
+  const path = ["android", "buildTypes"];
+  const headers = [name, `getByName("${name}")`, `create("${name}")`];
+  const existing = headers.find((h) => hasBlock(doc, [...path, h]));
+  if (existing) return existing;
+  // debug and release always exist; other build types have to be created.
+  const header =
+    name === "debug" || name === "release" ? headers[1] : headers[2];
+  ensureBlock(doc, path, header);
+  return header;
+}
+
+/**
+ * Configure the build types of android/app/build.gradle.kts, adding the
+ * key.properties loader and the `release` signing config when a build
+ * type signs with the release key. Build types not listed are left alone.
+ */
+export function configureBuildTypes(
+  doc: GradleDocument,
+  buildTypes: Record<string, BuildTypeSettings>
+): void {
+  const types = Object.entries(buildTypes);
+  if (types.some(([, t]) => t.signing === "release")) {
+    ensureImport(doc, "java.io.FileInputStream");
+    ensureImport(doc, "java.util.Properties");
+    ensureStatements(
+      doc,
+      KEYSTORE_LOADER,
+      "val keystorePropertiesFile",
+      "android"
+    );
+    // Declared before buildTypes, which looks the signing config up.
+    ensureBlock(doc, ["android"], "signingConfigs", "buildTypes");
+    ensureBlock(doc, ["android", "signingConfigs"], 'create("release")');
+    for (const key of ["keyAlias", "keyPassword", "storePassword"]) {
+      ensureProperty(
+        doc,
+        RELEASE_SIGNING_CONFIG,
+        key,
+        `keystoreProperties["${key}"] as String?`
+      );
+    }
+    ensureProperty(
+      doc,
+      RELEASE_SIGNING_CONFIG,
+      "storeFile",
+      'keystoreProperties["storeFile"]?.let { file(it) }'
+    );
+  }
+
+  if (types.length) ensureBlock(doc, ["android"], "buildTypes");
+  for (const [name, type] of types) {
+    const path = ["android", "buildTypes", buildTypeHeader(doc, name)];
+    if (type.signing) {
+      ensureProperty(doc, path, "signingConfig", SIGNING_CONFIGS[type.signing]);
+      removeLine(doc, path, SIGNING_TODO);
+    }
+    ensureProperty(doc, path, "isMinifyEnabled", String(type.minify));
+    ensureProperty(doc, path, "isShrinkResources", String(type.shrink));
+    if (type.minify) {
+      ensureCall(
+        doc,
+        path,
+        "proguardFiles",
+        'getDefaultProguardFile("proguard-android.txt"), "proguard-rules.pro"'
+      );
+    }
+  }
+}
+
+/** One line per build type, for dry runs. */
+export function describeBuildTypes(
+  buildTypes: Record<string, BuildTypeSettings>
+): string[] {
+  return Object.entries(buildTypes).map(([name, type]) => {
+    const parts = [
+      type.minify
+        ? type.shrink
+          ? "minify + shrink resources"
+          : "minify"
+        : "no minify",
+    ];
+    if (type.signing === "debug") parts.push("debug key");
+    if (type.signing === "release") {
+      parts.push(
+        `release key from ${KEY_PROPERTIES_FILE} (debug key until it exists)`
+      );
+    }
+    return `Build type ${name}: ${parts.join(", ")}`;
+  });
+}
+
+/** Ensure android/.gitignore ignores key.properties and keystores. */
+export function ensureSigningGitignore(doc: TextEdit): void {
+  const present = new Set(doc.text.split("\n").map((l) => l.trim()));
+  const missing = GITIGNORE_ENTRIES.filter((e) => !present.has(e));
+  if (!missing.length) return;
+  doc.text =
+    (doc.text.trim() ? `${doc.text.trimEnd()}\n\n` : "") +
+    "# The release keystore and its passwords must never be committed\n" +
+    missing.join("\n") +
+    "\n";
+  doc.changes.push(`android/.gitignore: added ${missing.join(", ")}`);
+}
+
+/** What setUpReleaseKey() would do, for dry runs. */
+export function describeReleaseKey(key: ReleaseKeySettings): string[] {
+  const alias = key.alias ?? DEFAULT_ALIAS;
+  return [
+    key.keystore
+      ? `keytool -list -keystore ${key.keystore} -alias ${alias} (check the key and password)`
+      : `keytool -genkeypair -keystore ${GENERATED_KEYSTORE} -alias ${alias} (${key.password ? "given" : "random"} password)`,
+    `Write ${KEY_PROPERTIES_FILE}, unless it exists`,
+  ];
+}
+
+/** Escape a value for a Java .properties file. */
+const propertyValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/^\s/, "\\$&");
+
+function keyProperties(
+  projectDir: string,
+  keystore: string,
+  alias: string,
+  password: string
+): string {
+  // Gradle resolves storeFile from android/app; keystores outside the
+  // project keep their absolute path.
+  const inProject = !relative(projectDir, keystore).startsWith("..");
+  const storeFile = inProject
+    ? relative(join(projectDir, "android", "app"), keystore)
+        .split(sep)
+        .join("/")
+    : keystore;
+  return [
+    `storePassword=${propertyValue(password)}`,
+    `keyPassword=${propertyValue(password)}`,
+    `keyAlias=${propertyValue(alias)}`,
+    `storeFile=${propertyValue(storeFile)}`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Generate a release keystore with keytool, or check the key and password
+ * of an existing one, and write android/key.properties. An existing
+ * key.properties is kept. `write` saves the file, so that scaffold steps
+ * can back it up first.
+ */
+export async function setUpReleaseKey(
+  projectDir: string,
+  key: ReleaseKeySettings,
+  push: (msg: string) => void,
+  write: (path: string, content: string) => void = writeFileSync
+): Promise<void> {
+  const propertiesPath = join(projectDir, KEY_PROPERTIES_FILE);
+  if (existsSync(propertiesPath)) {
+    push(
+      `✔ ${KEY_PROPERTIES_FILE} already exists — keeping it (delete it to set up another key)`
+    );
+    return;
+  }
+  if (!(await commandExists("keytool"))) {
+    throw new Error(
+      "keytool not found on PATH. Install a JDK (Android Studio bundles one) and add its bin directory to PATH."
+    );
+  }
+
+  const alias = key.alias ?? DEFAULT_ALIAS;
+  let keystore: string;
+  let password: string;
+  if (key.keystore) {
+    if (!key.password) {
+      throw new Error("password is required to use an existing keystore.");
+    }
+    keystore = resolve(projectDir, key.keystore);
+    password = key.password;
+    if (!existsSync(keystore)) {
+      throw new Error(`Keystore not found at ${keystore}`);
+    }
+    await run(
+      "keytool",
+      [
+        "-list",
+        "-keystore",
+        keystore,
+        "-alias",
+        alias,
+        "-storepass:env",
+        PASSWORD_ENV,
+      ],
+      projectDir,
+      { [PASSWORD_ENV]: password }
+    ).catch((err) => {
+      throw new Error(
+        `Could not read key '${alias}' from ${keystore} — wrong alias or password?\n${err.message}`
+      );
+    });
+    push(`✔ Keystore ${keystore} checked (alias ${alias})`);
+  } else {
+    keystore = join(projectDir, GENERATED_KEYSTORE);
+    if (existsSync(keystore)) {
+      throw new Error(
+        `${GENERATED_KEYSTORE} already exists but ${KEY_PROPERTIES_FILE} does not. Pass it as keystore, with its password, or delete it.`
+      );
+    }
+    password = key.password ?? randomBytes(18).toString("base64url");
+    const days = key.validityDays ?? DEFAULT_VALIDITY_DAYS;
+    const dname =
+      key.dname ?? `CN=${toDisplayName(readPackageName(projectDir))}`;
+    // PKCS12 keystores have a single password for the store and its keys.
+    await run(
+      "keytool",
+      [
+        "-genkeypair",
+        "-keystore",
+        keystore,
+        "-storetype",
+        "PKCS12",
+        "-keyalg",
+        "RSA",
+        "-keysize",
+        "2048",
+        "-validity",
+        String(days),
+        "-alias",
+        alias,
+        "-dname",
+        dname,
+        "-storepass:env",
+        PASSWORD_ENV,
+        "-keypass:env",
+        PASSWORD_ENV,
+      ],
+      projectDir,
+      { [PASSWORD_ENV]: password }
+    );
+    push(
+      `✔ Keystore generated at ${GENERATED_KEYSTORE} (alias ${alias}, ${dname}, valid ${days} days)`
+    );
+  }
+
+  write(propertiesPath, keyProperties(projectDir, keystore, alias, password));
+  push(
+    `✔ ${KEY_PROPERTIES_FILE} written — it holds the passwords and stays out of Git`
+  );
+}
+
+export interface AndroidSigningOptions {
+  projectDir: string;
+  key: ReleaseKeySettings;
+  /** Applied over the build types of the project's mtdevkit.yaml (or the defaults). */
+  buildTypes?: Record<string, BuildTypeSpec>;
+  dryRun?: boolean;
+}
+
+/**
+ * Set up release signing and the build types of an existing project.
+ * Returns the log; throws on failure.
+ */
+export async function configureAndroidSigning(
+  opts: AndroidSigningOptions
+): Promise<string[]> {
+  const { projectDir } = opts;
+  const dryRun = opts.dryRun ?? false;
+  const log: string[] = [];
+  const push = (msg: string) => log.push(msg);
+
+  const name = readPackageName(projectDir);
+  const gradlePath = join(projectDir, GRADLE_FILE);
+  if (!existsSync(gradlePath)) {
+    throw new Error(
+      `${GRADLE_FILE} not found in ${projectDir} — only Kotlin DSL Android projects are supported.`
+    );
+  }
+  const buildTypes = mergeBuildTypes(
+    loadManifest(projectDir).buildTypes,
+    opts.buildTypes ?? {}
+  );
+  const gradle = parseGradle(readFileSync(gradlePath, "utf-8"));
+  configureBuildTypes(gradle, buildTypes);
+  const gitignorePath = join(projectDir, ANDROID_GITIGNORE);
+  const gitignore = {
+    text: existsSync(gitignorePath) ? readFileSync(gitignorePath, "utf-8") : "",
+    changes: [] as string[],
+  };
+  ensureSigningGitignore(gitignore);
+
+  push(`Configuring Android signing for ${name}`);
+  if (dryRun) {
+    push("Mode: DRY RUN\n");
+    for (const line of describeReleaseKey(opts.key)) plan(push, line);
+    for (const change of [...gitignore.changes, ...gradle.changes]) {
+      plan(push, change);
+    }
+    for (const line of describeBuildTypes(buildTypes)) push(`  ${line}`);
+    push("\n── Dry run complete! No changes were made. ──");
+    return log;
+  }
+
+  // The key first: if keytool fails, nothing has been changed yet.
+  await setUpReleaseKey(projectDir, opts.key, push);
+  if (gitignore.changes.length) {
+    writeFileSync(gitignorePath, gitignore.text);
+    push(`✔ ${ANDROID_GITIGNORE} updated`);
+  }
+  if (gradle.changes.length) {
+    writeFileSync(gradlePath, gradle.text);
+    push(`✔ ${GRADLE_FILE} updated`);
+    for (const change of gradle.changes) push(`  • ${change}`);
+  } else {
+    push(`✔ ${GRADLE_FILE} already configured`);
+  }
+  for (const line of describeBuildTypes(buildTypes)) push(`  ${line}`);
+
+  push(
+    `\n── Release signing configured. Git does not keep the keystore or ${KEY_PROPERTIES_FILE}: back them up somewhere safe, e.g. a password manager. ──`
+  );
+  return log;
+}
@@ -0,0 +1,127 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join, sep } from "node:path";
+
+// ─── Audit log ─────────────────────────────────────────────────────
+// An append-only JSONL file with one entry per command the server runs,
+// and one per command a dry run only planned. Entries are never rewritten;
+// readAudit() filters them for get_audit_log.
+
+/** Override with MTDEVKIT_AUDIT_LOG. */
+export function auditLogPath(): string {
+  return (
+    process.env.MTDEVKIT_AUDIT_LOG ??
+    join(homedir(), ".mtdevkit", "audit.jsonl")
+  );
+}
+
+/** Output longer than this keeps its head and tail only. */
+const MAX_OUTPUT_CHARS = 4000;
+
+export interface AuditEntry {
+  at: string;
+  /** true for a command a dry run reported instead of running. */
+  dryRun: boolean;
+  /** MCP tool that ran the command. */
+  tool?: string;
+  /** Project directory the command belongs to. */
+  project?: string;
+  /** Scaffold step id. */
+  step?: string;
+  cwd?: string;
+  /** Program, or for dry runs the planned action as reported. */
+  command: string;
+  args?: string[];
+  /** "pty" when the command ran in a pseudo-terminal. */
+  via?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  durationMs?: number;
+  output?: string;
+  /** Why the command did not complete: spawn error, timeout, cancellation. */
+  error?: string;
+}
+
+export function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_CHARS) return output;
+  const half = MAX_OUTPUT_CHARS / 2;
+  return `${output.slice(0, half)}\n… [${output.length - MAX_OUTPUT_CHARS} characters truncated] …\n${output.slice(-half)}`;
+}
+
+/**
+ * Append an entry. A failure to write is reported on stderr but never
+ * fails the command being audited.
+ */
+export function appendAudit(entry: Omit<AuditEntry, "at">): void {
+  const path = auditLogPath();
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(
+      path,
+      JSON.stringify({ at: new Date().toISOString(), ...entry }) + "\n"
+    );
+  } catch (err: any) {
+    console.error(
+      `MTDevKit: could not write audit log ${path}: ${err.message}`
+    );
+  }
+}
+
+export interface AuditQuery {
+  /** Entries for this project directory (or directories below it). */
+  project?: string;
+  tool?: string;
+  /** ISO timestamps, inclusive. */
+  since?: string;
+  until?: string;
+  dryRun?: boolean;
+  /** Keep the newest `limit` matches. */
+  limit?: number;
+}
+
+/** Read matching entries, oldest first. Unparseable lines are skipped. */
+export function readAudit(query: AuditQuery = {}): AuditEntry[] {
+  const path = auditLogPath();
+  if (!existsSync(path)) return [];
+
+  const since = query.since ? Date.parse(query.since) : -Infinity;
+  const until = query.until ? Date.parse(query.until) : Infinity;
+  const inProject = (p?: string) =>
+    !query.project ||
+    (!!p && (p === query.project || p.startsWith(query.project + sep)));
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const at = Date.parse(entry.at);
+    if (at < since || at > until) continue;
+    if (!inProject(entry.project)) continue;
+    if (query.tool && entry.tool !== query.tool) continue;
+    if (query.dryRun !== undefined && entry.dryRun !== query.dryRun) continue;
+    entries.push(entry);
+  }
+  return query.limit ? entries.slice(-query.limit) : entries;
+}
+
+/** One line per entry for the tool's text report. */
+export function formatAuditEntry(e: AuditEntry): string {
+  const where = [e.tool, e.step].filter(Boolean).join(" › ");
+  const head = `${e.at} ${where ? `[${where}] ` : ""}`;
+  if (e.dryRun) return `${head}◇ planned: ${e.command}`;
+
+  const commandLine = [e.command, ...(e.args ?? [])].join(" ");
+  const status = e.error
+    ? `✖ ${e.error}`
+    : e.exitCode === 0
+      ? "✔ exit 0"
+      : `✖ exit ${e.exitCode ?? e.signal}`;
+  const duration =
+    e.durationMs === undefined ? "" : `, ${(e.durationMs / 1000).toFixed(1)}s`;
+  return `${head}$ ${commandLine}${e.via ? ` (via ${e.via})` : ""} — ${status}${duration}${e.cwd ? ` in ${e.cwd}` : ""}`;
+}
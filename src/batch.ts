@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { parse } from "yaml";
+import { z } from "zod";
+import { plan, withCommandContext } from "./exec.js";
+import {
+  ScaffoldOptions,
+  ScaffoldResult,
+  scaffoldProject,
+} from "./scaffold.js";
+import { activateStarter, activateStarterCommand, stepMsg } from "./steps.js";
+import { DART_PACKAGE_NAME_RE, FlavorSpec, flavorSchema } from "./template.js";
+
+// ─── Batch scaffolding ─────────────────────────────────────────────
+// create_flutter_projects_batch runs scaffoldProject() for several
+// projects, a few at a time. app_starter_plus is activated once for the
+// whole batch and every scaffold skips its install-starter step.
+
+export interface BatchEntry {
+  name: string;
+  org: string;
+  template?: string;
+  flavors?: FlavorSpec[];
+  /** Parent directory; overrides the batch's. */
+  dir?: string;
+}
+
+/** One entry of a spec file. Flavors use the mtdevkit.yaml field names. */
+const entrySchema = z.object({
+  name: z
+    .string()
+    .regex(
+      DART_PACKAGE_NAME_RE,
+      "Must be lowercase, start with a letter, contain only [a-z0-9_]"
+    ),
+  org: z.string().min(1),
+  template: z.string().url().optional(),
+  flavors: z.array(flavorSchema).min(1).optional(),
+  dir: z.string().optional(),
+});
+
+const specSchema = z.union([
+  z.array(entrySchema).min(1),
+  z.object({ projects: z.array(entrySchema).min(1) }),
+]);
+
+/**
+ * Read a YAML or JSON spec: a list of projects, or a map with a
+ * `projects:` list. Relative `dir`s are resolved against the spec's folder.
+ */
+export function loadBatchSpec(path: string): BatchEntry[] {
+  if (!existsSync(path)) throw new Error(`Spec file not found: ${path}`);
+  let raw: unknown;
+  try {
+    raw = parse(readFileSync(path, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`${path} is not valid YAML/JSON: ${err.message}`);
+  }
+  const parsed = specSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `  • ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new Error(`Invalid batch spec ${path}:\n${issues}`);
+  }
+  const entries = Array.isArray(parsed.data)
+    ? parsed.data
+    : parsed.data.projects;
+  return entries.map((e) => ({
+    ...e,
+    ...(e.dir && { dir: resolve(path, "..", e.dir) }),
+  }));
+}
+
+export interface BatchOptions {
+  projects: BatchEntry[];
+  /** Parent directory for entries without their own. */
+  dir?: string;
+  /** How many projects are scaffolded at the same time. */
+  concurrency: number;
+  dryRun?: boolean;
+  onFailure?: ScaffoldOptions["onFailure"];
+  signal?: AbortSignal;
+  /** Called for every log line, prefixed with the project name. */
+  onLog?: (line: string) => void;
+  /** Called when a project finishes. */
+  onProgress?: (done: number, total: number, message: string) => void;
+}
+
+export interface BatchProjectResult {
+  name: string;
+  result: ScaffoldResult;
+}
+
+export interface BatchResult {
+  /** Log of the shared setup before the projects started. */
+  log: string[];
+  projects: BatchProjectResult[];
+}
+
+/** Scaffold every project. Never throws for a single project's failure. */
+export async function scaffoldBatch(opts: BatchOptions): Promise<BatchResult> {
+  const log: string[] = [];
+  const push = (msg: string) => {
+    log.push(msg);
+    opts.onLog?.(msg);
+  };
+
+  const dirOf = (e: BatchEntry) => resolve(e.dir ?? opts.dir ?? process.cwd());
+  const seen = new Set<string>();
+  for (const entry of opts.projects) {
+    const projectDir = join(dirOf(entry), entry.name);
+    if (seen.has(projectDir)) {
+      throw new Error(`${projectDir} is listed more than once.`);
+    }
+    seen.add(projectDir);
+  }
+
+  push(
+    `Batch: ${opts.projects.length} project(s), ${opts.concurrency} at a time${opts.dryRun ? " — DRY RUN" : ""}`
+  );
+  if (opts.dryRun) {
+    plan(push, `${activateStarterCommand()} (once for the batch)`);
+  } else {
+    await withCommandContext(
+      { ...(opts.signal && { signal: opts.signal }) },
+      () => activateStarter()
+    );
+    push("✔ app_starter_plus ready (shared by the batch)");
+  }
+
+  // Results keep the order the projects were listed in.
+  const results: BatchProjectResult[] = [];
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < opts.projects.length) {
+      const i = next++;
+      const entry = opts.projects[i];
+      const result = await scaffoldProject({
+        name: entry.name,
+        org: entry.org,
+        template: entry.template,
+        flavors: entry.flavors,
+        dir: dirOf(entry),
+        dryRun: opts.dryRun,
+        skipSteps: ["install-starter"],
+        onFailure: opts.onFailure,
+        signal: opts.signal,
+        onLog: (line) => opts.onLog?.(`[${entry.name}] ${line}`),
+      });
+      results[i] = { name: entry.name, result };
+      opts.onProgress?.(
+        ++done,
+        opts.projects.length,
+        `${entry.name}: ${result.ok ? "done" : "failed"}`
+      );
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.min(opts.concurrency, opts.projects.length) },
+      worker
+    )
+  );
+
+  return { log, projects: results };
+}
+
+/** Render the per-project summary as the tool's text report. */
+export function formatBatchResult(batch: BatchResult): string {
+  const failed = batch.projects.filter((p) => !p.result.ok);
+  const lines = [
+    ...batch.log,
+    "",
+    ...batch.projects.map(({ name, result }) =>
+      result.ok
+        ? `✔ ${name} → ${result.projectDir}`
+        : `✖ ${name} → ${result.failedStep ? `${stepMsg(result.failedStep)}: ` : ""}${result.error}`
+    ),
+    "",
+    `${batch.projects.length - failed.length}/${batch.projects.length} project(s) succeeded.`,
+  ];
+  const resumable = failed.filter((p) => p.result.resumable);
+  if (resumable.length) {
+    lines.push(
+      `Resume with create_flutter_project resume=true for: ${resumable.map((p) => p.name).join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
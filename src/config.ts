@@ -0,0 +1,259 @@
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { TextEdit } from "./ios.js";
+import { loadManifest } from "./template.js";
+
+// ─── App config files ──────────────────────────────────────────────
+// config/app_config_<env>.json, as written by step create-configs. The
+// expected keys are the template manifest's `config` section (or the
+// default configJson() keys). Values that look like secrets are masked in
+// everything returned from here, so reports can go into chat logs.
+
+export const CONFIG_DIR = "config";
+/** Matches real config files only, not their .example.json counterparts. */
+const CONFIG_FILE_RE = /^app_config_([^.]+)\.json$/;
+
+export const configFile = (env: string) =>
+  join(CONFIG_DIR, `app_config_${env}.json`);
+/** Committed copy of a config file with the template's default values. */
+export const exampleConfigFile = (env: string) =>
+  join(CONFIG_DIR, `app_config_${env}.example.json`);
+
+/** Keys whose values are treated as secrets. */
+const SECRET_KEY_RE =
+  /key|secret|token|password|passwd|pwd|auth|credential|private|signature|salt/i;
+/** Long opaque strings (API keys, tokens) are secret whatever their key. */
+const SECRET_VALUE_RE = /^(?=.*\d)(?=.*[A-Za-z])[A-Za-z0-9_\-+/=.]{24,}$/;
+/** Values that were obviously never filled in. */
+const PLACEHOLDER_RE =
+  /^(todo|tbd|fixme|changeme|change[_-]me|replace[_-]?me|placeholder|x{3,}|your[_-].*|<.*>)$|\{\{.*\}\}/i;
+
+export type ConfigIssueKind =
+  "missing" | "empty" | "placeholder" | "not-a-string" | "unexpected";
+
+export interface ConfigIssue {
+  key: string;
+  kind: ConfigIssueKind;
+}
+
+export interface ConfigReport {
+  env: string;
+  file: string;
+  /** Values with secrets masked. */
+  values: Record<string, unknown>;
+  issues: ConfigIssue[];
+  /** Set when the file could not be read as a JSON object. */
+  error?: string;
+}
+
+/** Environments that have a config file, sorted. */
+export function listConfigEnvs(projectDir: string): string[] {
+  const dir = join(projectDir, CONFIG_DIR);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .map((f) => f.match(CONFIG_FILE_RE)?.[1])
+    .filter((env): env is string => !!env)
+    .sort();
+}
+
+/** Read a config file. Throws if it is missing or not a JSON object. */
+export function readConfig(
+  projectDir: string,
+  env: string
+): Record<string, unknown> {
+  const path = join(projectDir, configFile(env));
+  if (!existsSync(path)) {
+    throw new Error(`${configFile(env)} not found`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`${configFile(env)} is not valid JSON: ${err.message}`);
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error(`${configFile(env)} is not a JSON object`);
+  }
+  return json as Record<string, unknown>;
+}
+
+export function isSecret(key: string, value: unknown): boolean {
+  return (
+    typeof value === "string" &&
+    value !== "" &&
+    !isPlaceholder(value) &&
+    (SECRET_KEY_RE.test(key) || SECRET_VALUE_RE.test(value))
+  );
+}
+
+export function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER_RE.test(value.trim());
+}
+
+/** Mask a secret, keeping the last 4 characters of long values to tell them apart. */
+export function maskValue(key: string, value: unknown): unknown {
+  if (!isSecret(key, value)) return value;
+  const s = value as string;
+  return s.length > 12 ? `••••••••${s.slice(-4)}` : "••••••••";
+}
+
+/** Check config values against the expected keys. */
+export function validateConfig(
+  values: Record<string, unknown>,
+  expectedKeys: string[]
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  for (const key of expectedKeys) {
+    if (!(key in values)) issues.push({ key, kind: "missing" });
+  }
+  for (const [key, value] of Object.entries(values)) {
+    if (!expectedKeys.includes(key)) issues.push({ key, kind: "unexpected" });
+    if (value === "" || value === null) {
+      issues.push({ key, kind: "empty" });
+    } else if (typeof value !== "string") {
+      issues.push({ key, kind: "not-a-string" });
+    } else if (isPlaceholder(value)) {
+      issues.push({ key, kind: "placeholder" });
+    }
+  }
+  return issues;
+}
+
+/** Keys a project's config files are expected to have. */
+export function expectedConfigKeys(projectDir: string): string[] {
+  return Object.keys(loadManifest(projectDir).config);
+}
+
+/** Read and validate one environment's config file, with secrets masked. */
+export function configReport(projectDir: string, env: string): ConfigReport {
+  const report: ConfigReport = {
+    env,
+    file: configFile(env),
+    values: {},
+    issues: [],
+  };
+  try {
+    const values = readConfig(projectDir, env);
+    report.values = Object.fromEntries(
+      Object.entries(values).map(([k, v]) => [k, maskValue(k, v)])
+    );
+    report.issues = validateConfig(values, expectedConfigKeys(projectDir));
+  } catch (err: any) {
+    report.error = err.message;
+  }
+  return report;
+}
+
+/**
+ * Set keys in one environment's config file, keeping the other keys and
+ * their order. Returns the keys whose value changed.
+ */
+export function setConfigValues(
+  projectDir: string,
+  env: string,
+  updates: Record<string, string>,
+  dryRun = false
+): string[] {
+  const values = readConfig(projectDir, env);
+  const changed = Object.keys(updates).filter((k) => values[k] !== updates[k]);
+  if (!dryRun && changed.length) {
+    writeFileSync(
+      join(projectDir, configFile(env)),
+      JSON.stringify({ ...values, ...updates }, null, 2) + "\n"
+    );
+  }
+  return changed;
+}
+
+const ISSUE_TEXT: Record<ConfigIssueKind, string> = {
+  missing: "missing",
+  empty: "empty",
+  placeholder: "placeholder value",
+  "not-a-string": "not a string",
+  unexpected: "not in the template's config keys",
+};
+
+/** Render config reports as the tool's text report. */
+export function formatConfigReports(reports: ConfigReport[]): string {
+  return reports
+    .map((r) => {
+      if (r.error) return `✖ ${r.file}: ${r.error}`;
+      const lines = [
+        `${r.issues.length ? "⚠" : "✔"} ${r.file}`,
+        ...Object.entries(r.values).map(
+          ([k, v]) => `    ${k}: ${JSON.stringify(v)}`
+        ),
+        ...r.issues.map((i) => `    → ${i.key}: ${ISSUE_TEXT[i.kind]}`),
+      ];
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+// ─── Keeping config files out of Git ───────────────────────────────
+// Real config files are gitignored and their .example.json counterparts
+// committed. A pre-commit hook catches files added with `git add -f`.
+
+const GITIGNORE_ENTRIES = [
+  "/config/app_config_*.json",
+  "!/config/app_config_*.example.json",
+];
+
+/** Ensure .gitignore ignores config files but not their examples. */
+export function ensureConfigGitignore(doc: TextEdit): void {
+  const present = new Set(doc.text.split("\n").map((l) => l.trim()));
+  const missing = GITIGNORE_ENTRIES.filter((e) => !present.has(e));
+  if (!missing.length) return;
+  doc.text =
+    (doc.text.trim() ? `${doc.text.trimEnd()}\n\n` : "") +
+    "# App config files hold real keys; commit the .example.json copies instead\n" +
+    missing.join("\n") +
+    "\n";
+  doc.changes.push(`.gitignore: added ${missing.join(", ")}`);
+}
+
+// The check sits between these lines, so running again replaces it and
+// leaves the hook's own commands alone.
+const HOOK_BEGIN = "# >>> mtdevkit: block local config files";
+const HOOK_END = "# <<< mtdevkit";
+
+const HOOK_CHECK = `${HOOK_BEGIN}
+for f in $(git diff --cached --name-only --diff-filter=ACM -- 'config/app_config_*.json'); do
+  case "$f" in *.example.json) continue ;; esac
+  echo "✖ $f is a local config file and is never committed." >&2
+  echo "  Unstage it with: git rm --cached $f" >&2
+  echo "  Commit config/app_config_<env>.example.json instead." >&2
+  exit 1
+done
+${HOOK_END}`;
+
+/**
+ * Ensure a pre-commit hook runs the config check. An existing hook keeps
+ * its own commands; the check goes right after its shebang so an early
+ * `exit 0` cannot skip it.
+ */
+export function ensureConfigPreCommitCheck(doc: TextEdit): void {
+  const begin = doc.text.indexOf(HOOK_BEGIN);
+  if (begin >= 0) {
+    const endMarker = doc.text.indexOf(HOOK_END, begin);
+    if (endMarker < 0) {
+      throw new Error(
+        `pre-commit hook has '${HOOK_BEGIN}' but no '${HOOK_END}' line — remove the broken check and run again.`
+      );
+    }
+    const end = endMarker + HOOK_END.length;
+    if (doc.text.slice(begin, end) === HOOK_CHECK) return;
+    doc.text = doc.text.slice(0, begin) + HOOK_CHECK + doc.text.slice(end);
+    doc.changes.push("pre-commit: config check updated");
+    return;
+  }
+  if (!doc.text.startsWith("#!")) {
+    doc.text = `#!/bin/sh\n${HOOK_CHECK}\n${doc.text}`;
+  } else {
+    const eol = doc.text.indexOf("\n");
+    const shebang = eol < 0 ? doc.text : doc.text.slice(0, eol);
+    const rest = eol < 0 ? "" : doc.text.slice(eol + 1);
+    doc.text = `${shebang}\n${HOOK_CHECK}\n${rest}`;
+  }
+  doc.changes.push("pre-commit: added config check");
+}
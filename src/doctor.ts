@@ -0,0 +1,246 @@
+import {
+  detectFvm,
+  fvmArgs,
+  fvmCmd,
+  loadPty,
+  run,
+  withCommandContext,
+} from "./exec.js";
+
+// ─── Environment doctor ────────────────────────────────────────────
+// Everything create_flutter_project relies on outside the project, checked
+// up front and reported with a fix for each problem. "warn" marks things
+// the scaffold can work around; "fail" marks things that break a step.
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+export interface EnvironmentCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  /** How to fix a warn/fail result. */
+  hint?: string;
+}
+
+/** Time limit for each probe; git ls-remote may wait on a slow remote. */
+const PROBE_TIMEOUT_MS = 30_000;
+
+/** Run a probe command, returning null instead of throwing. */
+async function probe(
+  command: string,
+  args: string[],
+  extraEnv?: Record<string, string>
+): Promise<string | null> {
+  try {
+    return await withCommandContext({ timeoutMs: PROBE_TIMEOUT_MS }, () =>
+      run(command, args, undefined, extraEnv)
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** First line of a command's output, for error details. */
+const firstLine = (text: string) => text.split("\n")[0].trim();
+
+async function checkFvm(): Promise<EnvironmentCheck> {
+  if (!(await detectFvm())) {
+    return {
+      name: "fvm",
+      status: "warn",
+      detail: "not installed — plain flutter/dart will be used",
+      hint: "Optional. Install fvm (https://fvm.app) to pin the Flutter SDK per project.",
+    };
+  }
+  const version = await probe("fvm", ["--version"]);
+  return {
+    name: "fvm",
+    status: "ok",
+    detail: version ? firstLine(version) : "installed",
+  };
+}
+
+async function checkFlutter(): Promise<EnvironmentCheck> {
+  const output = await probe(
+    fvmCmd("flutter"),
+    fvmArgs("flutter", ["--version", "--machine"])
+  );
+  if (output === null) {
+    return {
+      name: "flutter",
+      status: "fail",
+      detail: `${fvmCmd("flutter")} ${fvmArgs("flutter", ["--version"]).join(" ")} failed`,
+      hint: "Install Flutter (https://docs.flutter.dev/get-started/install) and make sure it is on PATH, or run `fvm global stable`.",
+    };
+  }
+  // --machine prints JSON, possibly after progress lines such as
+  // "Downloading Dart SDK…".
+  try {
+    const info = JSON.parse(output.slice(output.indexOf("{")));
+    return {
+      name: "flutter",
+      status: "ok",
+      detail: `Flutter ${info.frameworkVersion} (${info.channel ?? "unknown"} channel)`,
+    };
+  } catch {
+    return { name: "flutter", status: "ok", detail: firstLine(output) };
+  }
+}
+
+async function checkDart(): Promise<EnvironmentCheck> {
+  const output = await probe(fvmCmd("dart"), fvmArgs("dart", ["--version"]));
+  if (output === null) {
+    return {
+      name: "dart",
+      status: "fail",
+      detail: `${fvmCmd("dart")} ${fvmArgs("dart", ["--version"]).join(" ")} failed`,
+      hint: "Dart ships with Flutter — add <flutter>/bin to PATH.",
+    };
+  }
+  const version = output.match(/Dart SDK version: (\S+)/)?.[1];
+  return {
+    name: "dart",
+    status: "ok",
+    detail: version ? `Dart ${version}` : firstLine(output),
+  };
+}
+
+async function checkPty(): Promise<EnvironmentCheck> {
+  if (await loadPty()) {
+    return {
+      name: "pty",
+      status: "ok",
+      detail: "node-pty available (terminal for flavorizr)",
+    };
+  }
+  return {
+    name: "pty",
+    status: "warn",
+    detail: `node-pty has no binary for ${process.platform}-${process.arch} — flavorizr will run with CI=true TERM=dumb instead of a terminal`,
+    hint: "Reinstall MTDevKit so npm fetches the @lydell/node-pty binary for this platform.",
+  };
+}
+
+async function checkStarter(): Promise<EnvironmentCheck> {
+  const output = await probe(
+    fvmCmd("dart"),
+    fvmArgs("dart", ["pub", "global", "list"])
+  );
+  const line = output
+    ?.split("\n")
+    .find((l) => l.startsWith("app_starter_plus "));
+  if (line) {
+    return { name: "app_starter_plus", status: "ok", detail: line.trim() };
+  }
+  return {
+    name: "app_starter_plus",
+    status: "warn",
+    detail: "not activated",
+    hint: "Step install-starter activates it; to do it now run `dart pub global activate app_starter_plus`.",
+  };
+}
+
+async function checkGit(): Promise<EnvironmentCheck> {
+  const version = await probe("git", ["--version"]);
+  if (version === null) {
+    return {
+      name: "git",
+      status: "fail",
+      detail: "not installed",
+      hint: "Install git (https://git-scm.com/downloads).",
+    };
+  }
+  return { name: "git", status: "ok", detail: firstLine(version) };
+}
+
+/** Step commit-before-flavorizr fails without a git identity. */
+export async function checkGitIdentity(
+  cwd?: string
+): Promise<EnvironmentCheck> {
+  const get = (key: string) =>
+    withCommandContext({ timeoutMs: PROBE_TIMEOUT_MS }, () =>
+      run("git", ["config", "--get", key], cwd)
+    ).catch(() => "");
+  const name = await get("user.name");
+  const email = await get("user.email");
+  if (name && email) {
+    return { name: "git identity", status: "ok", detail: `${name} <${email}>` };
+  }
+  const missing = [!name && "user.name", !email && "user.email"].filter(
+    Boolean
+  ) as string[];
+  return {
+    name: "git identity",
+    status: "fail",
+    detail: `${missing.join(" and ")} not set — git commit will fail`,
+    hint: missing
+      .map((key) =>
+        key === "user.name"
+          ? 'git config --global user.name "Your Name"'
+          : 'git config --global user.email "you@example.com"'
+      )
+      .join(" && "),
+  };
+}
+
+async function checkTemplate(url: string): Promise<EnvironmentCheck> {
+  try {
+    // Never prompt for credentials: there is no terminal to answer.
+    await withCommandContext({ timeoutMs: PROBE_TIMEOUT_MS }, () =>
+      run("git", ["ls-remote", "--heads", url], undefined, {
+        GIT_TERMINAL_PROMPT: "0",
+      })
+    );
+    return { name: "template", status: "ok", detail: `${url} is reachable` };
+  } catch (err: any) {
+    const reason = err.message.split("\n").slice(1).join(" ").trim();
+    return {
+      name: "template",
+      status: "fail",
+      detail: `${url} is not reachable${reason ? `: ${reason}` : ""}`,
+      hint: "Check the URL and your access to it — for a private repo, set up an SSH key or a credential helper (e.g. a Bitbucket app password) so `git ls-remote` works without prompting.",
+    };
+  }
+}
+
+/**
+ * Run every environment check. The template check is skipped when git
+ * itself is missing.
+ */
+export async function checkEnvironment(
+  templateUrl: string
+): Promise<EnvironmentCheck[]> {
+  const checks = [
+    await checkFvm(),
+    await checkFlutter(),
+    await checkDart(),
+    await checkPty(),
+    await checkStarter(),
+    await checkGit(),
+  ];
+  if (checks.at(-1)!.status !== "fail") {
+    checks.push(await checkGitIdentity(), await checkTemplate(templateUrl));
+  }
+  return checks;
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  ok: "✔",
+  warn: "⚠",
+  fail: "✖",
+};
+
+/** Render check results as the tool's text report. */
+export function formatChecks(checks: EnvironmentCheck[]): string {
+  const lines = checks.flatMap((c) => [
+    `${STATUS_ICONS[c.status]} ${c.name}: ${c.detail}`,
+    ...(c.hint && c.status !== "ok" ? [`   → ${c.hint}`] : []),
+  ]);
+  const failed = checks.filter((c) => c.status === "fail").length;
+  lines.push(
+    failed
+      ? `\n${failed} check(s) failed — create_flutter_project will not succeed until they are fixed.`
+      : "\nReady to scaffold."
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,468 @@
+import { execFile, spawn } from "node:child_process";
+import { promisify } from "node:util";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { constants as osConstants } from "node:os";
+import { AuditEntry, appendAudit, truncateOutput } from "./audit.js";
+
+const execFileAsync = promisify(execFile);
+
+// ─── Flutter runner abstraction ────────────────────────────────────
+// Detects fvm at startup; every command goes through this so we
+// transparently fall back to bare flutter/dart when fvm is absent.
+
+let useFvm = false;
+
+/** Detect fvm on PATH and remember the result for fvmCmd/fvmArgs. */
+export async function detectFvm(): Promise<boolean> {
+  useFvm = await commandExists("fvm");
+  return useFvm;
+}
+
+/** Whether the last detectFvm() call found fvm. */
+export function usingFvm(): boolean {
+  return useFvm;
+}
+
+/** Prefix a command with `fvm` when available. */
+export function fvmCmd(cmd: string): string {
+  return useFvm ? "fvm" : cmd;
+}
+
+export function fvmArgs(cmd: string, args: string[]): string[] {
+  return useFvm ? [cmd, ...args] : args;
+}
+
+// ─── Command context ───────────────────────────────────────────────
+// Per-tool-call settings and observers for every command run() executes.
+// They travel with the async call chain, so steps and helpers need no
+// extra parameters and concurrent tool calls do not see each other's.
+
+/** Used when no timeout is configured for a command. */
+export const DEFAULT_COMMAND_TIMEOUT_MS = 10 * 60_000;
+
+/** Grace period between SIGTERM and SIGKILL when stopping a command. */
+const KILL_GRACE_MS = 5_000;
+
+export interface CommandContext {
+  /** Called before each command starts. */
+  onCommand?(command: string, args: string[], cwd?: string): void;
+  /** Receives command output (stdout and stderr) as it arrives. */
+  onOutput?(chunk: string): void;
+  /** Aborting kills the running command, e.g. when the MCP request is cancelled. */
+  signal?: AbortSignal;
+  /** Per-command time limit (default: DEFAULT_COMMAND_TIMEOUT_MS). */
+  timeoutMs?: number;
+  /** Scaffold step the command belongs to, named in timeout and cancellation errors. */
+  step?: string;
+  /** MCP tool and project directory, recorded in the audit log. */
+  tool?: string;
+  project?: string;
+}
+
+const commandContext = new AsyncLocalStorage<CommandContext>();
+
+/**
+ * Run fn with settings applied to every command it executes. They are
+ * merged over the settings of an enclosing withCommandContext() call.
+ */
+export function withCommandContext<T>(
+  context: CommandContext,
+  fn: () => Promise<T>
+): Promise<T> {
+  return commandContext.run({ ...commandContext.getStore(), ...context }, fn);
+}
+
+/** Human-readable duration, e.g. 90000 → "1m 30s". */
+export function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  return s % 60 ? `${Math.floor(s / 60)}m ${s % 60}s` : `${s / 60}m`;
+}
+
+// ─── Command runner ────────────────────────────────────────────────
+// run(), runInteractive() and commandExists() hand every command to the
+// current runner. The default one starts real processes; the test suite
+// swaps in one that runs stub binaries and records what was run.
+
+export interface RunOptions {
+  cwd?: string;
+  extraEnv?: Record<string, string>;
+}
+
+export interface CommandRunner {
+  /** Run with pipes and return stdout + stderr; see run(). */
+  run(command: string, args: string[], opts: RunOptions): Promise<string>;
+  /** Run in a pseudo-terminal and return the transcript; see runInteractive(). */
+  runInteractive(
+    command: string,
+    args: string[],
+    opts: RunOptions & { answers: PromptAnswer[] }
+  ): Promise<string>;
+  /** Whether the command is on PATH. */
+  exists(command: string): Promise<boolean>;
+}
+
+/** Starts real processes, with timeouts, cancellation and audit logging. */
+export const defaultRunner: CommandRunner = {
+  run: (command, args, opts) => spawnCommand(command, args, opts),
+  async runInteractive(command, args, { cwd, extraEnv, answers }) {
+    const pty = await loadPty();
+    if (pty) {
+      return spawnCommand(command, args, {
+        cwd,
+        extraEnv,
+        pty: { module: pty, answers },
+      });
+    }
+    return spawnCommand(command, args, {
+      cwd,
+      extraEnv: { ...extraEnv, CI: "true", TERM: "dumb" },
+    });
+  },
+  async exists(command) {
+    try {
+      await execFileAsync("which", [command]);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+let runner = defaultRunner;
+
+/** Replace the runner for every later command; no argument restores the default. */
+export function setCommandRunner(next: CommandRunner = defaultRunner): void {
+  runner = next;
+}
+
+// ─── Process helpers ───────────────────────────────────────────────
+
+/**
+ * Run a command and return combined stdout + stderr. Throws on non-zero
+ * exit, on timeout and when the context's signal is aborted.
+ * Stopping a command also stops whatever it spawned, and every command
+ * is recorded in the audit log.
+ */
+export async function run(
+  command: string,
+  args: string[],
+  cwd?: string,
+  extraEnv?: Record<string, string>
+): Promise<string> {
+  return runner.run(command, args, { cwd, extraEnv });
+}
+
+/**
+ * Record in the audit log a command or action that a dry run reported
+ * instead of running.
+ */
+export function recordPlanned(description: string): void {
+  const context = commandContext.getStore();
+  appendAudit({
+    dryRun: true,
+    tool: context?.tool,
+    project: context?.project,
+    step: context?.step,
+    command: description,
+  });
+}
+
+/** Report an action a dry run skips, and record it in the audit log as planned. */
+export function plan(push: (msg: string) => void, action: string): void {
+  push(`  [dry-run] ${action}`);
+  recordPlanned(action);
+}
+
+// ─── Process launching ─────────────────────────────────────────────
+// spawnCommand() supervises a process started either with pipes or in a
+// pseudo-terminal; a launcher hides the difference.
+
+interface ProcessEvents {
+  onData(chunk: string, stream: "stdout" | "stderr"): void;
+  onExit(code: number | null, signal: string | null): void;
+  onError(err: Error): void;
+}
+
+interface ProcessHandle {
+  kill(signal: NodeJS.Signals): void;
+  write(data: string): void;
+}
+
+type Launcher = (events: ProcessEvents) => ProcessHandle;
+
+/**
+ * Outside Windows the process gets its own process group (a PTY child is
+ * a session leader anyway), so stopping it also stops whatever it spawned
+ * (flutter → dart).
+ */
+function killTree(
+  pid: number | undefined,
+  signal: NodeJS.Signals,
+  fallback: () => void
+): void {
+  try {
+    if (process.platform !== "win32" && pid) process.kill(-pid, signal);
+    else fallback();
+  } catch {
+    // Already gone.
+  }
+}
+
+function pipedLauncher(
+  program: string,
+  args: string[],
+  cwd: string | undefined,
+  env: NodeJS.ProcessEnv
+): Launcher {
+  return (events) => {
+    const child = spawn(program, args, {
+      cwd,
+      env,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+    child.stdout.on("data", (data: Buffer) =>
+      events.onData(data.toString(), "stdout")
+    );
+    child.stderr.on("data", (data: Buffer) =>
+      events.onData(data.toString(), "stderr")
+    );
+    child.on("error", events.onError);
+    child.on("close", events.onExit);
+    return {
+      kill: (signal) => killTree(child.pid, signal, () => child.kill(signal)),
+      write: () => {},
+    };
+  };
+}
+
+type PtyModule = typeof import("@lydell/node-pty");
+
+function ptyLauncher(
+  pty: PtyModule,
+  program: string,
+  args: string[],
+  cwd: string | undefined,
+  env: NodeJS.ProcessEnv
+): Launcher {
+  return (events) => {
+    // node-pty passes args to the process as an array, so no shell or Tcl
+    // quoting is involved on any platform.
+    const term = pty.spawn(program, args, {
+      name: "xterm-256color",
+      cols: 200,
+      rows: 50,
+      cwd: cwd ?? process.cwd(),
+      env: env as Record<string, string>,
+    });
+    term.onData((data) => events.onData(data, "stdout"));
+    term.onExit(({ exitCode, signal }) =>
+      events.onExit(exitCode, signal ? signalName(signal) : null)
+    );
+    return {
+      // Windows (ConPTY) does not support signals; kill() ends the process.
+      kill: (signal) => killTree(term.pid, signal, () => term.kill()),
+      write: (data) => term.write(data),
+    };
+  };
+}
+
+const signalName = (signal: number) =>
+  Object.entries(osConstants.signals).find(([, n]) => n === signal)?.[0] ??
+  String(signal);
+
+/** Remove ANSI escape sequences and resolve carriage-return overwrites. */
+export function plainTranscript(raw: string): string {
+  return raw
+    .replace(ANSI_RE, "")
+    .split(/\r?\n/)
+    .map((line) => line.split("\r").filter(Boolean).at(-1) ?? "")
+    .join("\n")
+    .trim();
+}
+
+const ANSI_RE =
+  /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/** An automatic reply to a prompt seen in a PTY command's output. */
+export interface PromptAnswer {
+  /** Regular expression (case-insensitive) matched against new output. */
+  pattern: string;
+  /** Sent followed by Enter. */
+  answer: string;
+}
+
+/** Y/n confirmations (flavorizr asks before overwriting files) → yes. */
+export const DEFAULT_PROMPT_ANSWERS: PromptAnswer[] = [
+  { pattern: "\\(Y/n\\)|\\(y/N\\)|\\[Y/n\\]|\\[y/N\\]", answer: "y" },
+  { pattern: "proceed\\?", answer: "y" },
+];
+
+interface SpawnOptions extends RunOptions {
+  /** Run in a pseudo-terminal, answering prompts from this table. */
+  pty?: { module: PtyModule; answers: PromptAnswer[] };
+}
+
+async function spawnCommand(
+  command: string,
+  args: string[],
+  { cwd, extraEnv, pty }: SpawnOptions
+): Promise<string> {
+  const context = commandContext.getStore();
+  const commandLine = [command, ...args].join(" ");
+  const timeoutMs = context?.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS;
+  const stopped = (reason: string) =>
+    new Error(
+      `${context?.step ? `Step ${context.step}: ` : ""}${reason} "${commandLine}"`
+    );
+  const startedAt = Date.now();
+  const audit = (
+    result: Pick<AuditEntry, "exitCode" | "signal" | "output" | "error">
+  ) =>
+    appendAudit({
+      dryRun: false,
+      tool: context?.tool,
+      project: context?.project,
+      step: context?.step,
+      cwd: cwd ?? process.cwd(),
+      command,
+      args,
+      via: pty ? "pty" : undefined,
+      durationMs: Date.now() - startedAt,
+      ...result,
+      output: result.output && truncateOutput(result.output),
+    });
+
+  if (context?.signal?.aborted) {
+    const err = stopped("Cancelled before running");
+    audit({ error: err.message });
+    throw err;
+  }
+  context?.onCommand?.(command, args, cwd);
+
+  const env = { ...process.env, ...extraEnv };
+  const launch = pty
+    ? ptyLauncher(pty.module, command, args, cwd, env)
+    : pipedLauncher(command, args, cwd, env);
+  const answers = (pty?.answers ?? []).map((a) => ({
+    ...a,
+    re: new RegExp(a.pattern, "i"),
+  }));
+
+  return new Promise((resolve, reject) => {
+    const fail = (msg: string) =>
+      reject(new Error(`Command failed: ${commandLine}\n${msg}`));
+
+    let stdout = "";
+    let stderr = "";
+    // Output since the last automatic answer, searched for prompts.
+    let unanswered = "";
+    let stopReason: string | null = null;
+    let settled = false;
+
+    const child = launch({
+      onData(chunk, stream) {
+        if (stream === "stderr") stderr += chunk;
+        else stdout += chunk;
+        context?.onOutput?.(pty ? plainTranscript(chunk) : chunk);
+        if (!answers.length) return;
+
+        unanswered = (unanswered + chunk.replace(ANSI_RE, "")).slice(-2000);
+        const match = answers.find((a) => a.re.test(unanswered));
+        if (match) {
+          unanswered = "";
+          child.write(`${match.answer}\r`);
+          stdout += `\n[auto-answered "${match.answer}"]\n`;
+        }
+      },
+      onError(err) {
+        if (!settle()) return;
+        audit({ error: err.message });
+        fail(err.message);
+      },
+      onExit(code, signal) {
+        if (!settle()) return;
+        const output = pty
+          ? plainTranscript(stdout)
+          : [stdout, stderr].filter(Boolean).join("\n").trim();
+        audit({
+          exitCode: code,
+          signal,
+          output,
+          ...(stopReason && { error: stopReason }),
+        });
+        if (stopReason) {
+          reject(stopped(stopReason));
+        } else if (code === 0) {
+          resolve(output);
+        } else {
+          fail(
+            (pty ? output : stderr || stdout) ||
+              `exited with ${signal ?? `code ${code}`}`
+          );
+        }
+      },
+    });
+
+    const stop = (reason: string) => {
+      if (stopReason) return;
+      stopReason = reason;
+      child.kill("SIGTERM");
+      setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS).unref();
+    };
+    const timer = setTimeout(
+      () => stop(`Timed out after ${formatDuration(timeoutMs)} running`),
+      timeoutMs
+    );
+    const onAbort = () => stop("Cancelled by the client while running");
+    context?.signal?.addEventListener("abort", onAbort, { once: true });
+
+    // A process that fails to start reports an error and then closes;
+    // only the first of the two is audited and settles the promise.
+    function settle(): boolean {
+      if (settled) return false;
+      settled = true;
+      clearTimeout(timer);
+      context?.signal?.removeEventListener("abort", onAbort);
+      return true;
+    }
+  });
+}
+
+let ptyModule: Promise<PtyModule | null> | null = null;
+
+/**
+ * The node-pty module, or null if its native binary is not available for
+ * this platform. Loaded on first use so the server starts either way.
+ */
+export function loadPty(): Promise<PtyModule | null> {
+  ptyModule ??= import("@lydell/node-pty").catch(() => null);
+  return ptyModule;
+}
+
+/**
+ * Run a command inside a pseudo-terminal and return its transcript, with
+ * ANSI escapes removed and automatic answers marked.
+ *
+ * mason_logger (used by flavorizr) calls `stdout.hasTerminal` and throws
+ * if there's no TTY. Neither CI=true nor piping stdin fixes this reliably,
+ * so the command gets a real PTY from node-pty (ConPTY on Windows). Prompts
+ * matching `answers` are answered automatically.
+ *
+ * Falls back to CI=true + TERM=dumb if node-pty has no binary for this
+ * platform.
+ */
+export async function runInteractive(
+  command: string,
+  args: string[],
+  cwd?: string,
+  answers: PromptAnswer[] = DEFAULT_PROMPT_ANSWERS
+): Promise<string> {
+  return runner.runInteractive(command, args, { cwd, answers });
+}
+
+/** Checks that a command exists on PATH. */
+export async function commandExists(cmd: string): Promise<boolean> {
+  return runner.exists(cmd);
+}
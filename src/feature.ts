@@ -0,0 +1,576 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { plan } from "./exec.js";
+import { TextEdit } from "./ios.js";
+import { readPackageName, readPubspec } from "./project.js";
+import { MANIFEST_FILE, loadManifest } from "./template.js";
+
+// ─── Feature module generator ──────────────────────────────────────
+// generate_feature writes the data / domain / presentation layers of one
+// feature the way the clean-architecture template lays them out, plus a
+// <feature>_injection.dart that registers them with get_it. The project's
+// DI setup gets one import and one call to that function; nothing else in
+// the project is touched.
+
+export interface FeatureSettings {
+  /** Directory features are generated in, relative to the project. */
+  dir: string;
+  /** Dart file that sets up get_it; null = the file under lib/ that uses GetIt. */
+  di: string | null;
+  /** State management for the presentation layer. */
+  state: "cubit" | "bloc";
+}
+
+/** Marks where feature registrations go in the DI setup, if present. */
+const DI_MARKER = "// mtdevkit:features";
+const GET_IT_RE = /\bGetIt\.(instance|I)\b/;
+const LOCATOR_RE =
+  /^\s*(?:final|var|late final)\s+(?:GetIt\s+)?(\w+)\s*=\s*GetIt\.(?:instance|I)\b/m;
+
+/** snake_case → PascalCase */
+const pascal = (s: string) =>
+  s.replace(/(^|_)([a-z0-9])/g, (_, __, c: string) => c.toUpperCase());
+/** snake_case → camelCase */
+const camel = (s: string) => pascal(s).replace(/^./, (c) => c.toLowerCase());
+
+interface FeatureFile {
+  /** Relative to the project directory. */
+  path: string;
+  content: string;
+}
+
+interface FeatureNames {
+  pkg: string;
+  feature: string;
+  Feature: string;
+  /** `package:` import prefix of the feature directory. */
+  base: string;
+  useCases: { file: string; Class: string; method: string }[];
+  state: "cubit" | "bloc";
+}
+
+const imports = (...uris: string[]) =>
+  uris.map((u) => `import '${u}';`).join("\n");
+
+function domainFiles(n: FeatureNames): FeatureFile[] {
+  return [
+    {
+      path: `domain/entities/${n.feature}.dart`,
+      content: `class ${n.Feature} {
+  const ${n.Feature}();
+}
+`,
+    },
+    {
+      path: `domain/repositories/${n.feature}_repository.dart`,
+      content: `abstract class ${n.Feature}Repository {
+${n.useCases.map((u) => `  Future<void> ${u.method}();`).join("\n")}
+}
+`,
+    },
+    ...n.useCases.map((u) => ({
+      path: `domain/usecases/${u.file}.dart`,
+      content: `${imports(`${n.base}/domain/repositories/${n.feature}_repository.dart`)}
+
+class ${u.Class} {
+  final ${n.Feature}Repository repository;
+
+  const ${u.Class}(this.repository);
+
+  Future<void> call() => repository.${u.method}();
+}
+`,
+    })),
+  ];
+}
+
+function dataFiles(n: FeatureNames): FeatureFile[] {
+  const source = `${n.Feature}RemoteDataSource`;
+  return [
+    {
+      path: `data/models/${n.feature}_model.dart`,
+      content: `${imports(`${n.base}/domain/entities/${n.feature}.dart`)}
+
+class ${n.Feature}Model extends ${n.Feature} {
+  const ${n.Feature}Model();
+
+  factory ${n.Feature}Model.fromJson(Map<String, dynamic> json) =>
+      const ${n.Feature}Model();
+
+  Map<String, dynamic> toJson() => {};
+}
+`,
+    },
+    {
+      path: `data/datasources/${n.feature}_remote_data_source.dart`,
+      content: `abstract class ${source} {
+${n.useCases.map((u) => `  Future<void> ${u.method}();`).join("\n")}
+}
+
+class ${source}Impl implements ${source} {
+${n.useCases
+  .map(
+    (u) => `  @override
+  Future<void> ${u.method}() async {
+    throw UnimplementedError();
+  }`
+  )
+  .join("\n\n")}
+}
+`,
+    },
+    {
+      path: `data/repositories/${n.feature}_repository_impl.dart`,
+      content: `${imports(
+        `${n.base}/data/datasources/${n.feature}_remote_data_source.dart`,
+        `${n.base}/domain/repositories/${n.feature}_repository.dart`
+      )}
+
+class ${n.Feature}RepositoryImpl implements ${n.Feature}Repository {
+  final ${source} remoteDataSource;
+
+  const ${n.Feature}RepositoryImpl(this.remoteDataSource);
+${n.useCases
+  .map(
+    (u) => `
+  @override
+  Future<void> ${u.method}() => remoteDataSource.${u.method}();`
+  )
+  .join("\n")}
+}
+`,
+    },
+  ];
+}
+
+/** Loading / success / failure states shared by the cubit and bloc variants. */
+function stateFile(n: FeatureNames, owner: string): FeatureFile {
+  const S = `${n.Feature}State`;
+  return {
+    path: `presentation/${n.state}/${n.feature}_state.dart`,
+    content: `part of '${owner}';
+
+sealed class ${S} {
+  const ${S}();
+}
+
+class ${n.Feature}Initial extends ${S} {
+  const ${n.Feature}Initial();
+}
+
+class ${n.Feature}Loading extends ${S} {
+  const ${n.Feature}Loading();
+}
+
+class ${n.Feature}Success extends ${S} {
+  const ${n.Feature}Success();
+}
+
+class ${n.Feature}Failure extends ${S} {
+  final String message;
+
+  const ${n.Feature}Failure(this.message);
+}
+`,
+  };
+}
+
+function presentationFiles(n: FeatureNames): FeatureFile[] {
+  const S = `${n.Feature}State`;
+  const owner = `${n.feature}_${n.state}.dart`;
+  const Owner = `${n.Feature}${n.state === "cubit" ? "Cubit" : "Bloc"}`;
+  const useCaseImports = n.useCases.map(
+    (u) => `${n.base}/domain/usecases/${u.file}.dart`
+  );
+  const fields = n.useCases
+    .map((u) => `  final ${u.Class} _${u.method};`)
+    .join("\n");
+  const params = n.useCases
+    .map((u) => `    required ${u.Class} ${u.method},`)
+    .join("\n");
+  const inits = n.useCases
+    .map((u) => `_${u.method} = ${u.method}`)
+    .join(",\n        ");
+
+  const files: FeatureFile[] = [stateFile(n, owner)];
+  if (n.state === "cubit") {
+    files.push({
+      path: `presentation/cubit/${owner}`,
+      content: `${imports("package:flutter_bloc/flutter_bloc.dart", ...useCaseImports)}
+
+part '${n.feature}_state.dart';
+
+class ${Owner} extends Cubit<${S}> {
+${fields}
+
+  ${Owner}({
+${params}
+  })  : ${inits},
+        super(const ${n.Feature}Initial());
+${n.useCases
+  .map(
+    (u) => `
+  Future<void> ${u.method}() => _run(_${u.method});`
+  )
+  .join("\n")}
+
+  Future<void> _run(Future<void> Function() useCase) async {
+    emit(const ${n.Feature}Loading());
+    try {
+      await useCase();
+      emit(const ${n.Feature}Success());
+    } catch (e) {
+      emit(${n.Feature}Failure(e.toString()));
+    }
+  }
+}
+`,
+    });
+  } else {
+    const E = `${n.Feature}Event`;
+    files.push(
+      {
+        path: `presentation/bloc/${n.feature}_event.dart`,
+        content: `part of '${owner}';
+
+sealed class ${E} {
+  const ${E}();
+}
+${n.useCases
+  .map(
+    (u) => `
+class ${u.Class}Requested extends ${E} {
+  const ${u.Class}Requested();
+}`
+  )
+  .join("\n")}
+`,
+      },
+      {
+        path: `presentation/bloc/${owner}`,
+        content: `${imports("package:flutter_bloc/flutter_bloc.dart", ...useCaseImports)}
+
+part '${n.feature}_event.dart';
+part '${n.feature}_state.dart';
+
+class ${Owner} extends Bloc<${E}, ${S}> {
+${fields}
+
+  ${Owner}({
+${params}
+  })  : ${inits},
+        super(const ${n.Feature}Initial()) {
+${n.useCases
+  .map(
+    (u) =>
+      `    on<${u.Class}Requested>((event, emit) => _run(emit, _${u.method}));`
+  )
+  .join("\n")}
+  }
+
+  Future<void> _run(
+    Emitter<${S}> emit,
+    Future<void> Function() useCase,
+  ) async {
+    emit(const ${n.Feature}Loading());
+    try {
+      await useCase();
+      emit(const ${n.Feature}Success());
+    } catch (e) {
+      emit(${n.Feature}Failure(e.toString()));
+    }
+  }
+}
+`,
+      }
+    );
+  }
+
+  files.push({
+    path: `presentation/pages/${n.feature}_page.dart`,
+    content: `${imports(
+      "package:flutter/material.dart",
+      "package:flutter_bloc/flutter_bloc.dart",
+      "package:get_it/get_it.dart",
+      `${n.base}/presentation/${n.state}/${owner}`
+    )}
+
+class ${n.Feature}Page extends StatelessWidget {
+  const ${n.Feature}Page({super.key});
+
+  @override
+  Widget build(BuildContext context) {
+    return BlocProvider(
+      create: (_) => GetIt.instance<${Owner}>(),
+      child: BlocBuilder<${Owner}, ${S}>(
+        builder: (context, state) => const Scaffold(
+          body: Center(child: Text('${n.Feature}')),
+        ),
+      ),
+    );
+  }
+}
+`,
+  });
+  return files;
+}
+
+/** <feature>_injection.dart: registers every class of the feature with get_it. */
+function injectionFile(n: FeatureNames): FeatureFile {
+  const Owner = `${n.Feature}${n.state === "cubit" ? "Cubit" : "Bloc"}`;
+  return {
+    path: `${n.feature}_injection.dart`,
+    content: `${imports(
+      "package:get_it/get_it.dart",
+      `${n.base}/data/datasources/${n.feature}_remote_data_source.dart`,
+      `${n.base}/data/repositories/${n.feature}_repository_impl.dart`,
+      `${n.base}/domain/repositories/${n.feature}_repository.dart`,
+      ...n.useCases.map((u) => `${n.base}/domain/usecases/${u.file}.dart`),
+      `${n.base}/presentation/${n.state}/${n.feature}_${n.state}.dart`
+    )}
+
+void ${injectionFunction(n)}(GetIt sl) {
+  sl.registerFactory(
+    () => ${Owner}(
+${n.useCases.map((u) => `      ${u.method}: sl(),`).join("\n")}
+    ),
+  );
+${n.useCases
+  .map((u) => `  sl.registerLazySingleton(() => ${u.Class}(sl()));`)
+  .join("\n")}
+  sl.registerLazySingleton<${n.Feature}Repository>(
+    () => ${n.Feature}RepositoryImpl(sl()),
+  );
+  sl.registerLazySingleton<${n.Feature}RemoteDataSource>(
+    () => ${n.Feature}RemoteDataSourceImpl(),
+  );
+}
+`,
+  };
+}
+
+const injectionFunction = (n: FeatureNames) => `init${n.Feature}Feature`;
+
+/** Dart files under a directory, sorted, skipping generated and build output. */
+function dartFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((e) => {
+      const path = join(dir, e.name);
+      if (e.isDirectory()) return dartFiles(path);
+      return e.name.endsWith(".dart") &&
+        !e.name.endsWith(".g.dart") &&
+        !e.name.endsWith(".freezed.dart")
+        ? [path]
+        : [];
+    });
+}
+
+/** The project's get_it setup: the manifest's `features.di`, else the file under lib/ that uses GetIt. */
+export function findDiFile(
+  projectDir: string,
+  settings: FeatureSettings
+): string {
+  if (settings.di) {
+    if (!existsSync(join(projectDir, settings.di))) {
+      throw new Error(
+        `DI setup ${settings.di} (features.di in ${MANIFEST_FILE}) not found.`
+      );
+    }
+    return settings.di;
+  }
+  const featuresDir = join(projectDir, settings.dir);
+  const found = dartFiles(join(projectDir, "lib")).find(
+    (f) =>
+      !f.startsWith(featuresDir) && GET_IT_RE.test(readFileSync(f, "utf-8"))
+  );
+  if (!found) {
+    throw new Error(
+      `No dependency injection setup found: no file under lib/ uses GetIt.instance. Set features.di in ${MANIFEST_FILE} to the file that registers dependencies.`
+    );
+  }
+  return relative(projectDir, found);
+}
+
+/** A top-level function declaration ending in its opening brace. */
+const TOP_LEVEL_FUNCTION_RE =
+  /^(?!(?:abstract|class|enum|extension|mixin|typedef)\b)[A-Za-z_][\w<>?, ]*?\b\w+\s*\([^)]*\)\s*(?:async\s*)?\{[ \t]*$/gm;
+
+/**
+ * Offset of the closing `}` of the last top-level function that uses the
+ * locator, or null. The body runs to the next `}` at column 0, so closing
+ * braces of classes and extensions are never taken for it.
+ */
+function setupFunctionEnd(text: string, locator: string): number | null {
+  const uses = new RegExp(`\\b${locator.replace(/\./g, "\\.")}\\b`);
+  let end: number | null = null;
+  for (const decl of text.matchAll(TOP_LEVEL_FUNCTION_RE)) {
+    const start = decl.index! + decl[0].length;
+    const close = /^}[ \t]*$/m.exec(text.slice(start));
+    if (!close) break;
+    const body = text.slice(start, start + close.index);
+    if (uses.test(body) || GET_IT_RE.test(body)) end = start + close.index;
+  }
+  return end;
+}
+
+/**
+ * Import a feature's injection file and call it from the DI setup: before
+ * a `// mtdevkit:features` line if there is one, else at the end of the
+ * last top-level function that uses the get_it locator.
+ */
+export function registerFeature(
+  doc: TextEdit,
+  importUri: string,
+  fn: string
+): void {
+  const importLine = `import '${importUri}';`;
+  if (!doc.text.includes(importLine)) {
+    const lastImport = [...doc.text.matchAll(/^import\s.*;[ \t]*$/gm)].at(-1);
+    const at =
+      lastImport === undefined ? 0 : lastImport.index! + lastImport[0].length;
+    doc.text =
+      lastImport === undefined
+        ? `${importLine}\n\n${doc.text}`
+        : `${doc.text.slice(0, at)}\n${importLine}${doc.text.slice(at)}`;
+    doc.changes.push(`added ${importLine}`);
+  }
+
+  if (new RegExp(`\\b${fn}\\(`).test(doc.text)) return;
+  const locator = doc.text.match(LOCATOR_RE)?.[1] ?? "GetIt.instance";
+  const call = `${fn}(${locator});`;
+
+  const marker = doc.text.match(
+    new RegExp(`^([ \\t]*)${DI_MARKER.replace(/\//g, "\\/")}`, "m")
+  );
+  if (marker) {
+    doc.text = `${doc.text.slice(0, marker.index)}${marker[1]}${call}\n${doc.text.slice(marker.index)}`;
+  } else {
+    const close = setupFunctionEnd(doc.text, locator);
+    if (close === null) {
+      throw new Error(
+        `Could not find where to register the feature: no top-level function uses ${locator}. Add a \`${DI_MARKER}\` line where registrations belong.`
+      );
+    }
+    doc.text = `${doc.text.slice(0, close)}  ${call}\n${doc.text.slice(close)}`;
+  }
+  doc.changes.push(`added ${call}`);
+}
+
+export interface GenerateFeatureOptions {
+  projectDir: string;
+  /** snake_case feature name, e.g. user_profile. */
+  name: string;
+  /** snake_case use case names, e.g. get_user_profile. */
+  useCases: string[];
+  /** Overrides features.state from the template manifest. */
+  state?: "cubit" | "bloc";
+  dryRun?: boolean;
+}
+
+/** Generate a feature module and register it. Returns the log; throws on failure. */
+export async function generateFeature(
+  opts: GenerateFeatureOptions
+): Promise<string[]> {
+  const { projectDir, name } = opts;
+  const dryRun = opts.dryRun ?? false;
+  const log: string[] = [];
+  const push = (msg: string) => log.push(msg);
+
+  if (!existsSync(projectDir)) {
+    throw new Error(`Project not found: ${projectDir}`);
+  }
+  const pkg = readPackageName(projectDir);
+  const duplicate = opts.useCases.find(
+    (u, i) => opts.useCases.indexOf(u) !== i
+  );
+  if (duplicate) {
+    throw new Error(`Use case '${duplicate}' is listed more than once.`);
+  }
+
+  const settings = loadManifest(projectDir).features;
+  if (!settings.dir.startsWith("lib/")) {
+    throw new Error(
+      `features.dir in ${MANIFEST_FILE} must be under lib/, got ${settings.dir}.`
+    );
+  }
+  const featureDir = join(settings.dir, name);
+  if (existsSync(join(projectDir, featureDir))) {
+    throw new Error(`Feature '${name}' already exists at ${featureDir}.`);
+  }
+
+  const names: FeatureNames = {
+    pkg,
+    feature: name,
+    Feature: pascal(name),
+    base: `package:${pkg}/${settings.dir.slice("lib/".length)}/${name}`,
+    useCases: opts.useCases.map((u) => ({
+      file: u,
+      Class: pascal(u),
+      method: camel(u),
+    })),
+    state: opts.state ?? settings.state,
+  };
+  const files = [
+    ...dataFiles(names),
+    ...domainFiles(names),
+    ...presentationFiles(names),
+    injectionFile(names),
+  ].map((f) => ({ ...f, path: join(featureDir, f.path) }));
+
+  // Work out the DI edit before writing anything, so a project whose DI
+  // setup cannot be found is left untouched.
+  const diFile = findDiFile(projectDir, settings);
+  const di: TextEdit = {
+    text: readFileSync(join(projectDir, diFile), "utf-8"),
+    changes: [],
+  };
+  registerFeature(
+    di,
+    `${names.base}/${name}_injection.dart`,
+    injectionFunction(names)
+  );
+
+  push(`Feature:   ${name} (${names.useCases.map((u) => u.Class).join(", ")})`);
+  push(`Package:   ${names.pkg}`);
+  push(`State:     ${names.state}`);
+  push(`DI setup:  ${diFile}`);
+  if (dryRun) push("Mode:      DRY RUN\n");
+
+  for (const file of files) {
+    if (dryRun) {
+      plan(push, `Write ${file.path}`);
+      continue;
+    }
+    const path = join(projectDir, file.path);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, file.content);
+    push(`✔ ${file.path} written`);
+  }
+  for (const change of di.changes) {
+    if (dryRun) plan(push, `${diFile}: ${change}`);
+    else push(`✔ ${diFile}: ${change}`);
+  }
+  if (!dryRun) writeFileSync(join(projectDir, diFile), di.text);
+
+  const deps = { ...readPubspec(projectDir).dependencies };
+  const missing = ["flutter_bloc", "get_it"].filter((d) => !(d in deps));
+  if (missing.length) {
+    push(
+      `\n⚠ pubspec.yaml does not depend on ${missing.join(" or ")} — the generated code needs ${missing.length > 1 ? "them" : "it"}: flutter pub add ${missing.join(" ")}`
+    );
+  }
+  push(
+    dryRun
+      ? "\n── Dry run complete! No changes were made. ──"
+      : `\n── Feature ${name} generated ──`
+  );
+  return log;
+}
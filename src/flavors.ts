@@ -0,0 +1,298 @@
+import {
+  existsSync,
+  mkdirSync,
+  writeFileSync,
+  readFileSync,
+  rmSync,
+} from "node:fs";
+import { join } from "node:path";
+import { Document, YAMLMap, isMap, parseDocument } from "yaml";
+import { CONFIG_DIR, configFile, exampleConfigFile } from "./config.js";
+import { plan, run } from "./exec.js";
+import { readJournal } from "./journal.js";
+import { readPackageName } from "./project.js";
+import {
+  FLAVORIZR_OVERWRITES,
+  flavorizrCommand,
+  pushTranscript,
+  runFlavorizr,
+  revertEntrypoints,
+} from "./steps.js";
+import {
+  FlavorSpec,
+  RESERVED_FLAVOR_NAMES,
+  configJson,
+  flavorizrYaml,
+  loadManifest,
+  toAppId,
+} from "./template.js";
+
+// ─── Flavor management for existing projects ───────────────────────
+// add_flavor / remove_flavor edit flavorizr.yaml in place (keeping any
+// other sections), re-run flavorizr and restore the entrypoints it
+// overwrites — the same sequence as scaffold steps 6–10.
+
+interface FlavorProject {
+  projectDir: string;
+  name: string;
+  flavorizrPath: string;
+  doc: Document;
+  flavors: YAMLMap;
+}
+
+function openProject(projectDir: string): FlavorProject {
+  if (!existsSync(projectDir)) {
+    throw new Error(`Project not found: ${projectDir}`);
+  }
+  const name = readPackageName(projectDir);
+  const flavorizrPath = join(projectDir, "flavorizr.yaml");
+  if (!existsSync(flavorizrPath)) {
+    throw new Error(`flavorizr.yaml not found at ${flavorizrPath}`);
+  }
+  const doc = parseDocument(readFileSync(flavorizrPath, "utf-8"));
+  if (doc.errors.length) {
+    throw new Error(
+      `flavorizr.yaml is not valid YAML: ${doc.errors[0].message}`
+    );
+  }
+  const flavors = doc.get("flavors");
+  if (!isMap(flavors)) {
+    throw new Error("flavorizr.yaml has no `flavors:` map.");
+  }
+  return { projectDir, name, flavorizrPath, doc, flavors };
+}
+
+/**
+ * Work out the org of a scaffolded project: from its step journal, else
+ * from an existing applicationId of the form <org>.<appId>[.<suffix>].
+ */
+function inferOrg(project: FlavorProject): string | null {
+  const journal = readJournal(project.projectDir);
+  if (journal) return journal.org;
+
+  const appId = toAppId(project.name);
+  for (const item of project.flavors.items) {
+    const id = project.doc.getIn([
+      "flavors",
+      item.key,
+      "android",
+      "applicationId",
+    ]);
+    const match =
+      typeof id === "string"
+        ? id.match(new RegExp(`^(.+)\\.${appId}(\\..+)?$`))
+        : null;
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/** flavorizr rewrites main.dart/app.dart; refuse to clobber uncommitted edits. */
+async function ensureEntrypointsClean(projectDir: string): Promise<void> {
+  const status = await run(
+    "git",
+    ["status", "--porcelain", "--", ...FLAVORIZR_OVERWRITES],
+    projectDir
+  );
+  if (status) {
+    throw new Error(
+      `Uncommitted changes in ${FLAVORIZR_OVERWRITES.join(", ")} would be lost when flavorizr runs. Commit or stash them first.`
+    );
+  }
+}
+
+/**
+ * Run an edit that rewrites flavorizr.yaml. If it fails, flavorizr.yaml is
+ * put back as it was, so the same change can be tried again.
+ */
+async function editFlavorizrYaml(
+  project: FlavorProject,
+  dryRun: boolean,
+  edit: () => Promise<void>
+): Promise<void> {
+  const original = readFileSync(project.flavorizrPath, "utf-8");
+  try {
+    await edit();
+  } catch (err: any) {
+    if (!dryRun) {
+      writeFileSync(project.flavorizrPath, original);
+      err.message += "\nflavorizr.yaml was restored.";
+    }
+    throw err;
+  }
+}
+
+/** Re-run flavorizr and restore the entrypoints, logging as the scaffold does. */
+async function regenerateFlavors(
+  projectDir: string,
+  dryRun: boolean,
+  push: (msg: string) => void
+): Promise<void> {
+  if (dryRun) {
+    plan(push, flavorizrCommand());
+    plan(push, `git checkout -- ${FLAVORIZR_OVERWRITES.join(" ")}`);
+    return;
+  }
+  const transcript = await runFlavorizr(projectDir);
+  push("✔ Flavors regenerated (flavorizr)");
+  pushTranscript(push, transcript);
+  await revertEntrypoints(projectDir);
+  push("✔ main.dart & app.dart reverted");
+}
+
+export interface AddFlavorOptions {
+  projectDir: string;
+  flavor: FlavorSpec;
+  /** Reverse-domain org; inferred from the project when omitted. */
+  org?: string;
+  dryRun?: boolean;
+}
+
+/** Add a flavor to an existing project. Returns the log; throws on failure. */
+export async function addFlavor(opts: AddFlavorOptions): Promise<string[]> {
+  const { projectDir, flavor } = opts;
+  const dryRun = opts.dryRun ?? false;
+  const log: string[] = [];
+  const push = (msg: string) => log.push(msg);
+
+  const project = openProject(projectDir);
+  if (project.flavors.has(flavor.name)) {
+    throw new Error(
+      `Flavor '${flavor.name}' already exists in flavorizr.yaml.`
+    );
+  }
+  const org = opts.org ?? inferOrg(project);
+  if (!org) {
+    throw new Error(
+      "Could not infer the project's org — pass `org` explicitly."
+    );
+  }
+  if (!dryRun) await ensureEntrypointsClean(projectDir);
+
+  push(`Adding flavor '${flavor.name}' to ${project.name} (${org})`);
+  if (dryRun) push("Mode: DRY RUN\n");
+
+  // Reuse the scaffold's flavorizr.yaml rendering for the new entry.
+  const rendered = parseDocument(flavorizrYaml(project.name, org, [flavor]));
+  const entry = rendered.getIn(["flavors", flavor.name]);
+  await editFlavorizrYaml(project, dryRun, async () => {
+    if (dryRun) {
+      plan(push, `Add '${flavor.name}' to flavorizr.yaml`);
+    } else {
+      project.flavors.set(flavor.name, entry);
+      writeFileSync(project.flavorizrPath, project.doc.toString());
+      push("✔ flavorizr.yaml updated");
+    }
+
+    await regenerateFlavors(projectDir, dryRun, push);
+
+    const config = configJson(flavor.name, loadManifest(projectDir).config);
+    for (const rel of [
+      configFile(flavor.name),
+      exampleConfigFile(flavor.name),
+    ]) {
+      if (dryRun) {
+        plan(push, `Write ${rel}`);
+      } else if (existsSync(join(projectDir, rel))) {
+        push(`⚠ ${rel} already exists — left unchanged`);
+      } else {
+        mkdirSync(join(projectDir, CONFIG_DIR), { recursive: true });
+        writeFileSync(join(projectDir, rel), config + "\n");
+        push(`✔ ${rel} created`);
+      }
+    }
+  });
+
+  push(
+    dryRun
+      ? "\n── Dry run complete! No changes were made. ──"
+      : `\n── Flavor '${flavor.name}' added. Review and commit the changes. ──`
+  );
+  return log;
+}
+
+export interface RemoveFlavorOptions {
+  projectDir: string;
+  flavor: string;
+  dryRun?: boolean;
+}
+
+/** Per-flavor files generated by flavorizr or the scaffold, relative to the project. */
+function flavorArtifacts(flavor: string): string[] {
+  return [
+    configFile(flavor),
+    exampleConfigFile(flavor),
+    join("lib", `main_${flavor}.dart`),
+    join("android", "app", "src", flavor),
+    ...["Debug", "Profile", "Release"].map((c) =>
+      join("ios", "Flutter", `${flavor}${c}.xcconfig`)
+    ),
+    join(
+      "ios",
+      "Runner.xcodeproj",
+      "xcshareddata",
+      "xcschemes",
+      `${flavor}.xcscheme`
+    ),
+  ];
+}
+
+/** Remove a flavor from an existing project. Returns the log; throws on failure. */
+export async function removeFlavor(
+  opts: RemoveFlavorOptions
+): Promise<string[]> {
+  const { projectDir, flavor } = opts;
+  const dryRun = opts.dryRun ?? false;
+  const log: string[] = [];
+  const push = (msg: string) => log.push(msg);
+
+  const project = openProject(projectDir);
+  if (!project.flavors.has(flavor)) {
+    throw new Error(`Flavor '${flavor}' not found in flavorizr.yaml.`);
+  }
+  if (project.flavors.items.length === 1) {
+    throw new Error(`'${flavor}' is the only flavor — refusing to remove it.`);
+  }
+  if (RESERVED_FLAVOR_NAMES.has(flavor)) {
+    // Its android/app/src directory is Gradle's own, not the flavor's.
+    throw new Error(
+      `'${flavor}' is an Android source set or build type — refusing to delete android/app/src/${flavor}. Remove the flavor by hand.`
+    );
+  }
+  if (!dryRun) await ensureEntrypointsClean(projectDir);
+
+  push(`Removing flavor '${flavor}' from ${project.name}`);
+  if (dryRun) push("Mode: DRY RUN\n");
+
+  await editFlavorizrYaml(project, dryRun, async () => {
+    if (dryRun) {
+      plan(push, `Remove '${flavor}' from flavorizr.yaml`);
+    } else {
+      project.flavors.delete(flavor);
+      writeFileSync(project.flavorizrPath, project.doc.toString());
+      push("✔ flavorizr.yaml updated");
+    }
+
+    await regenerateFlavors(projectDir, dryRun, push);
+  });
+
+  for (const rel of flavorArtifacts(flavor)) {
+    if (!existsSync(join(projectDir, rel))) continue;
+    if (dryRun) {
+      plan(push, `Delete ${rel}`);
+    } else {
+      rmSync(join(projectDir, rel), { recursive: true, force: true });
+      push(`✔ ${rel} deleted`);
+    }
+  }
+
+  push(
+    `⚠ flavorizr does not remove Xcode build configurations — delete the '${flavor}' configurations in Runner.xcodeproj manually if present`
+  );
+  push(
+    dryRun
+      ? "\n── Dry run complete! No changes were made. ──"
+      : `\n── Flavor '${flavor}' removed. Review and commit the changes. ──`
+  );
+  return log;
+}
@@ -0,0 +1,94 @@
+import { run } from "./exec.js";
+
+// ─── Git remote setup ──────────────────────────────────────────────
+// Branch name and `origin` for a freshly scaffolded project, and the
+// optional commit + push once every step has run. Pushes never prompt
+// for credentials: there is no terminal to answer.
+
+export interface GitSettings {
+  /** URL (or local path, e.g. a bare repository) added as `origin`. */
+  remoteUrl?: string;
+  /** Name of the branch the project is committed on, e.g. "main". */
+  defaultBranch?: string;
+  /** Commit the finished project and push it to origin. */
+  push?: boolean;
+}
+
+const NO_PROMPT = { GIT_TERMINAL_PROMPT: "0" };
+
+/** Rename the current branch; works before the first commit too. */
+export async function renameBranch(
+  projectDir: string,
+  branch: string
+): Promise<boolean> {
+  const current = await run(
+    "git",
+    ["symbolic-ref", "--short", "HEAD"],
+    projectDir
+  );
+  if (current === branch) return false;
+  await run("git", ["branch", "-M", branch], projectDir);
+  return true;
+}
+
+/**
+ * Point `origin` at a URL, adding the remote or replacing the URL left by
+ * the template clone. Returns what was done, or null if nothing changed.
+ */
+export async function ensureOrigin(
+  projectDir: string,
+  url: string
+): Promise<"added" | "updated" | null> {
+  const current = await run(
+    "git",
+    ["remote", "get-url", "origin"],
+    projectDir
+  ).catch(() => null);
+  if (current === url) return null;
+  await run(
+    "git",
+    ["remote", current === null ? "add" : "set-url", "origin", url],
+    projectDir
+  );
+  return current === null ? "added" : "updated";
+}
+
+/** Stage everything and commit it. Returns false when there was nothing to commit. */
+export async function commitAll(
+  projectDir: string,
+  message: string
+): Promise<boolean> {
+  await run("git", ["add", "-A"], projectDir);
+  const status = await run("git", ["status", "--porcelain"], projectDir);
+  if (!status) return false;
+  await run("git", ["commit", "-m", message], projectDir);
+  return true;
+}
+
+/** Clone a repository with its full history. */
+export async function cloneRepository(
+  url: string,
+  dir: string
+): Promise<string> {
+  return run("git", ["clone", "--quiet", url, dir], undefined, NO_PROMPT);
+}
+
+/** The commit a repository's default branch points at, without cloning it. */
+export async function remoteHead(url: string): Promise<string> {
+  const output = await run(
+    "git",
+    ["ls-remote", url, "HEAD"],
+    undefined,
+    NO_PROMPT
+  );
+  const commit = output.split(/\s/)[0];
+  if (!/^[0-9a-f]{40}$/.test(commit)) {
+    throw new Error(`No HEAD commit found in ${url}`);
+  }
+  return commit;
+}
+
+/** Push the current branch to origin and make it the upstream. */
+export async function pushToOrigin(projectDir: string): Promise<string> {
+  return run("git", ["push", "-u", "origin", "HEAD"], projectDir, NO_PROMPT);
+}
@@ -0,0 +1,364 @@
+// ─── Gradle Kotlin DSL editor ──────────────────────────────────────
+// A small brace-aware editor for build.gradle.kts. It understands just
+// enough Kotlin — blocks, string literals and comments — to find
+// `android { compileOptions { … } }` reliably, whatever the indentation.
+//
+// Every operation is idempotent: applying it to an already patched file
+// changes nothing. Each real change is recorded in `changes`, and a
+// missing anchor block throws instead of silently doing nothing.
+
+export interface GradleDocument {
+  text: string;
+  /** Human-readable description of every change applied so far. */
+  changes: string[];
+}
+
+interface Block {
+  /** Header with whitespace collapsed, e.g. `getByName("debug")`. */
+  header: string;
+  /** Index of the first character of the header's line. */
+  lineStart: number;
+  /** Index of the opening brace. */
+  open: number;
+  /** Index of the matching closing brace. */
+  close: number;
+}
+
+export function parseGradle(text: string): GradleDocument {
+  return { text, changes: [] };
+}
+
+/** Index just past a string literal or comment starting at i, or i if there is none. */
+function skipNonCode(text: string, i: number): number {
+  if (text.startsWith('"""', i)) {
+    const end = text.indexOf('"""', i + 3);
+    return end < 0 ? text.length : end + 3;
+  }
+  if (text[i] === '"' || text[i] === "'") {
+    let j = i + 1;
+    while (j < text.length && text[j] !== text[i] && text[j] !== "\n") {
+      if (text[j] === "\\") j++;
+      j++;
+    }
+    return j + 1;
+  }
+  if (text.startsWith("//", i)) {
+    const end = text.indexOf("\n", i);
+    return end < 0 ? text.length : end;
+  }
+  if (text.startsWith("/*", i)) {
+    const end = text.indexOf("*/", i + 2);
+    return end < 0 ? text.length : end + 2;
+  }
+  return i;
+}
+
+function matchingBrace(text: string, open: number): number {
+  let depth = 0;
+  let i = open;
+  while (i < text.length) {
+    const skipped = skipNonCode(text, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+    i++;
+  }
+  throw new Error(
+    `Unbalanced braces in build.gradle.kts (block opened at offset ${open})`
+  );
+}
+
+/** Direct child blocks within [from, to). */
+function childBlocks(text: string, from: number, to: number): Block[] {
+  const blocks: Block[] = [];
+  let stmtStart = from;
+  let i = from;
+  while (i < to) {
+    const skipped = skipNonCode(text, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    const c = text[i];
+    if (c === "{") {
+      const close = matchingBrace(text, i);
+      const raw = text.slice(stmtStart, i);
+      // `key = value.let { … }` is an assignment with a lambda, not a block.
+      if (!/^\s*[\w.]+\s*=[^=]/.test(raw)) {
+        const start = stmtStart + raw.length - raw.trimStart().length;
+        blocks.push({
+          header: raw.trim().replace(/\s+/g, " "),
+          lineStart: text.lastIndexOf("\n", start - 1) + 1,
+          open: i,
+          close,
+        });
+        stmtStart = close + 1;
+      }
+      i = close + 1;
+      continue;
+    }
+    if (c === "\n" || c === ";" || c === "}") stmtStart = i + 1;
+    i++;
+  }
+  return blocks;
+}
+
+function findBlock(text: string, path: string[]): Block | null {
+  let from = 0;
+  let to = text.length;
+  let block: Block | null = null;
+  for (const segment of path) {
+    block =
+      childBlocks(text, from, to).find((b) => b.header === segment) ?? null;
+    if (!block) return null;
+    from = block.open + 1;
+    to = block.close;
+  }
+  return block;
+}
+
+/** Whether the block at `path` exists. */
+export function hasBlock(doc: GradleDocument, path: string[]): boolean {
+  return findBlock(doc.text, path) !== null;
+}
+
+function requireBlock(doc: GradleDocument, path: string[]): Block {
+  const block = findBlock(doc.text, path);
+  if (!block) {
+    throw new Error(
+      `build.gradle.kts: block '${path.join(" { ")} { … }${" }".repeat(path.length - 1)}' not found — the template layout has changed.`
+    );
+  }
+  return block;
+}
+
+/** Lines of a block's body that are not inside a nested block. */
+function ownLines(
+  text: string,
+  block: Block
+): { start: number; text: string }[] {
+  const lines: { start: number; text: string }[] = [];
+  let from = block.open + 1;
+  const addRange = (a: number, b: number) => {
+    let pos = a;
+    for (const line of text.slice(a, b).split("\n")) {
+      lines.push({ start: pos, text: line });
+      pos += line.length + 1;
+    }
+  };
+  for (const child of childBlocks(text, block.open + 1, block.close)) {
+    addRange(from, child.lineStart);
+    from = child.close + 1;
+  }
+  addRange(from, block.close);
+  return lines;
+}
+
+const indentOf = (text: string, lineStart: number) =>
+  text.slice(lineStart).match(/^[ \t]*/)![0];
+
+/** Indentation used for statements inside a block. */
+function bodyIndent(text: string, block: Block): string {
+  const own = indentOf(text, block.lineStart);
+  const first = text
+    .slice(block.open + 1, block.close)
+    .split("\n")
+    .slice(1)
+    .find((l) => l.trim());
+  const indent = first?.match(/^[ \t]*/)![0];
+  return indent && indent.length > own.length ? indent : own + "    ";
+}
+
+/** Insert a statement as the last line of a block. */
+function appendToBlock(doc: GradleDocument, block: Block, line: string): void {
+  const { text } = doc;
+  const indent = bodyIndent(text, block);
+  const closeLineStart = text.lastIndexOf("\n", block.close - 1) + 1;
+  const insertion =
+    closeLineStart > block.open &&
+    !text.slice(closeLineStart, block.close).trim()
+      ? { at: closeLineStart, str: `${indent}${line}\n` }
+      : {
+          at: block.close,
+          str: `\n${indent}${line}\n${indentOf(text, block.lineStart)}`,
+        };
+  doc.text =
+    text.slice(0, insertion.at) + insertion.str + text.slice(insertion.at);
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Ensure `key = value` is set directly inside the block at `path`. */
+export function ensureProperty(
+  doc: GradleDocument,
+  path: string[],
+  key: string,
+  value: string
+): void {
+  const block = requireBlock(doc, path);
+  const re = new RegExp(`^(\\s*${escapeRe(key)}\\s*=\\s*)(.*?)\\s*$`);
+  const where = path.join(".");
+
+  for (const line of ownLines(doc.text, block)) {
+    const match = line.text.match(re);
+    if (!match) continue;
+    if (match[2] === value) return;
+    const at = line.start + match[1].length;
+    doc.text =
+      doc.text.slice(0, at) + value + doc.text.slice(at + match[2].length);
+    doc.changes.push(`${where}: ${key} changed from ${match[2]} to ${value}`);
+    return;
+  }
+
+  appendToBlock(doc, block, `${key} = ${value}`);
+  doc.changes.push(`${where}: added ${key} = ${value}`);
+}
+
+/** Remove a line, such as a comment, directly inside the block at `path`. */
+export function removeLine(
+  doc: GradleDocument,
+  path: string[],
+  line: string
+): void {
+  const block = requireBlock(doc, path);
+  const found = ownLines(doc.text, block).find((l) => l.text.trim() === line);
+  if (!found) return;
+  doc.text =
+    doc.text.slice(0, found.start) +
+    doc.text.slice(found.start + found.text.length + 1);
+  doc.changes.push(`${path.join(".")}: removed ${line}`);
+}
+
+/**
+ * Ensure a top-level dependency such as implementation("group:artifact:1.0").
+ * An existing entry for the same group:artifact has its version updated; the
+ * `dependencies` block is created if the file has none.
+ */
+export function ensureDependency(
+  doc: GradleDocument,
+  configuration: string,
+  notation: string
+): void {
+  const wanted = `${configuration}("${notation}")`;
+  const coordinates = notation.split(":").slice(0, 2).join(":");
+
+  let block = findBlock(doc.text, ["dependencies"]);
+  if (!block) {
+    doc.text = doc.text.trimEnd() + "\n\ndependencies {\n}\n";
+    doc.changes.push("added dependencies block");
+    block = requireBlock(doc, ["dependencies"]);
+  }
+
+  const re = new RegExp(
+    `^(\\s*)${escapeRe(configuration)}\\(\\s*"(${escapeRe(coordinates)}(?::[^"]*)?)"\\s*\\)\\s*$`
+  );
+  for (const line of ownLines(doc.text, block)) {
+    const match = line.text.match(re);
+    if (!match) continue;
+    if (match[2] === notation) return;
+    doc.text =
+      doc.text.slice(0, line.start) +
+      match[1] +
+      wanted +
+      doc.text.slice(line.start + line.text.length);
+    doc.changes.push(`dependencies: ${match[2]} updated to ${notation}`);
+    return;
+  }
+
+  appendToBlock(doc, block, wanted);
+  doc.changes.push(`dependencies: added ${wanted}`);
+}
+
+/**
+ * Ensure the block `header { … }` exists directly inside the block at
+ * `path`, creating it empty — before the child block `before` if there is
+ * one, else as the last statement.
+ */
+export function ensureBlock(
+  doc: GradleDocument,
+  path: string[],
+  header: string,
+  before?: string
+): void {
+  if (findBlock(doc.text, [...path, header])) return;
+  const parent = requireBlock(doc, path);
+  const sibling = before
+    ? childBlocks(doc.text, parent.open + 1, parent.close).find(
+        (b) => b.header === before
+      )
+    : undefined;
+
+  if (sibling) {
+    const indent = indentOf(doc.text, sibling.lineStart);
+    doc.text =
+      doc.text.slice(0, sibling.lineStart) +
+      `${indent}${header} {\n${indent}}\n\n` +
+      doc.text.slice(sibling.lineStart);
+  } else {
+    const indent = bodyIndent(doc.text, parent);
+    appendToBlock(doc, parent, `${header} {\n${indent}}`);
+  }
+  doc.changes.push(`${path.join(".")}: added ${header} block`);
+}
+
+/**
+ * Ensure a call statement such as `proguardFiles(…)` directly inside the
+ * block at `path`. An existing call to the same function is left as it is.
+ */
+export function ensureCall(
+  doc: GradleDocument,
+  path: string[],
+  fn: string,
+  args: string
+): void {
+  const block = requireBlock(doc, path);
+  const re = new RegExp(`^\\s*${escapeRe(fn)}\\s*\\(`);
+  if (ownLines(doc.text, block).some((l) => re.test(l.text))) return;
+  appendToBlock(doc, block, `${fn}(${args})`);
+  doc.changes.push(`${path.join(".")}: added ${fn}(…)`);
+}
+
+/** Ensure `import <name>` among the imports at the top of the file. */
+export function ensureImport(doc: GradleDocument, name: string): void {
+  const wanted = `import ${name}`;
+  const lines = doc.text.split("\n");
+  if (lines.some((l) => l.trim() === wanted)) return;
+
+  // After the last import, or as the first line followed by a blank one.
+  let last = -1;
+  for (const [i, line] of lines.entries()) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("import ")) last = i;
+    else if (trimmed && !trimmed.startsWith("//")) break;
+  }
+  if (last >= 0) {
+    const at = lines.slice(0, last + 1).join("\n").length + 1;
+    doc.text = doc.text.slice(0, at) + `${wanted}\n` + doc.text.slice(at);
+  } else {
+    doc.text = `${wanted}\n\n${doc.text}`;
+  }
+  doc.changes.push(`added ${wanted}`);
+}
+
+/**
+ * Ensure top-level statements (a `snippet` at zero indentation) before the
+ * top-level block `before`. `marker` identifies them: if the file already
+ * contains it, nothing is inserted.
+ */
+export function ensureStatements(
+  doc: GradleDocument,
+  snippet: string,
+  marker: string,
+  before: string
+): void {
+  if (doc.text.includes(marker)) return;
+  const block = requireBlock(doc, [before]);
+  doc.text =
+    doc.text.slice(0, block.lineStart) +
+    `${snippet.trim()}\n\n` +
+    doc.text.slice(block.lineStart);
+  doc.changes.push(`added ${marker} before ${before} { … }`);
+}
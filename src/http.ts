@@ -0,0 +1,104 @@
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server,
+} from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+// ─── Streamable HTTP transport ─────────────────────────────────────
+// `--http` serves MCP at POST/GET/DELETE /mcp so one build machine can host
+// the server for a team. Every request must carry the bearer token; each
+// MCP session gets its own server instance from the factory.
+
+export const MCP_PATH = "/mcp";
+
+export interface HttpOptions {
+  port: number;
+  host: string;
+  /** Clients send it as `Authorization: Bearer <token>`. */
+  token: string;
+  createServer(): McpServer;
+}
+
+function hasToken(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** JSON-RPC error body, as the SDK's transport sends for its own errors. */
+const rpcError = (code: number, message: string) =>
+  JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null });
+
+/** Start listening. Resolves with the listening server once the port is bound. */
+export async function startHttpServer(opts: HttpOptions): Promise<Server> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  const http = createHttpServer(async (req, res) => {
+    const send = (status: number, body: string, headers = {}) =>
+      res
+        .writeHead(status, { "Content-Type": "application/json", ...headers })
+        .end(body);
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_PATH) {
+      send(404, rpcError(-32000, `Not found — MCP is served at ${MCP_PATH}`));
+      return;
+    }
+    if (!hasToken(req, opts.token)) {
+      send(401, rpcError(-32001, "Missing or invalid bearer token"), {
+        "WWW-Authenticate": 'Bearer realm="MTDevKit"',
+      });
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    let transport =
+      typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (sessionId && !transport) {
+      send(404, rpcError(-32001, "Session not found"));
+      return;
+    }
+    if (!transport) {
+      // A new session; the transport rejects anything but an initialize
+      // request.
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, created);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) sessions.delete(created.sessionId);
+      };
+      try {
+        await opts.createServer().connect(created);
+      } catch (err: any) {
+        console.error(`MTDevKit: could not start a session: ${err.message}`);
+        send(500, rpcError(-32603, "Internal error"));
+        return;
+      }
+      transport = created;
+    }
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (err: any) {
+      console.error(`MTDevKit: HTTP request failed: ${err.message}`);
+      if (!res.headersSent) send(500, rpcError(-32603, "Internal error"));
+    }
+    // A request that did not start a session leaves nothing to keep.
+    if (!sessionId && !transport.sessionId) await transport.close();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    http.once("error", reject);
+    http.listen(opts.port, opts.host, () => resolve());
+  });
+  return http;
+}
@@ -0,0 +1,398 @@
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { join, relative } from "node:path";
+import { parse } from "yaml";
+import { configFile, listConfigEnvs, readConfig } from "./config.js";
+import { run } from "./exec.js";
+import { JOURNAL_FILE, TEMPLATE_RECORD_FILE } from "./journal.js";
+import { readPubspec } from "./project.js";
+import { MANIFEST_FILE } from "./template.js";
+
+// ─── Project info ──────────────────────────────────────────────────
+// What get_project_info reports, gathered from pubspec.yaml,
+// flavorizr.yaml, config/app_config_*.json, .fvmrc and git. Missing or
+// broken files become warnings rather than errors, so a half-set-up
+// project can still be inspected.
+
+export interface FlavorInfo {
+  name: string;
+  appName: string | null;
+  applicationId: string | null;
+  bundleId: string | null;
+}
+
+export interface ConfigFileInfo {
+  file: string;
+  flavor: string;
+  keys: string[];
+  /** Keys whose value is empty or null — still to be filled in. */
+  emptyKeys: string[];
+  /** Set when the file is not a valid JSON object. */
+  error?: string;
+}
+
+export interface GitInfo {
+  branch: string | null;
+  /** Number of changed or untracked files. */
+  dirtyFiles: number;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+}
+
+export interface ProjectInfo {
+  path: string;
+  name: string | null;
+  version: string | null;
+  description: string | null;
+  /** Dart SDK constraint from `environment.sdk`. */
+  dartSdk: string | null;
+  /** Package → version constraint, or a description such as "sdk: flutter". */
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  flavors: FlavorInfo[];
+  configs: ConfigFileInfo[];
+  /** Flutter SDK pinned by fvm, if any. */
+  fvmFlutterVersion: string | null;
+  /** null when the project is not a git repository. */
+  git: GitInfo | null;
+  warnings: string[];
+}
+
+/** A pubspec dependency value as one line, e.g. "^5.0.0" or "git: <url>@main". */
+function describeDependency(value: unknown): string {
+  if (value === null || value === undefined) return "any";
+  if (typeof value !== "object") return String(value);
+  const dep = value as Record<string, any>;
+  if (dep.sdk) return `sdk: ${dep.sdk}`;
+  if (dep.path) return `path: ${dep.path}`;
+  if (dep.git) {
+    const git = typeof dep.git === "string" ? { url: dep.git } : dep.git;
+    return `git: ${git.url}${git.ref ? `@${git.ref}` : ""}${git.path ? ` (${git.path})` : ""}`;
+  }
+  if (dep.hosted) {
+    const url = typeof dep.hosted === "string" ? dep.hosted : dep.hosted.url;
+    return `${dep.version ?? "any"} (hosted: ${url})`;
+  }
+  return dep.version ?? JSON.stringify(dep);
+}
+
+function dependencyMap(section: unknown): Record<string, string> {
+  if (!section || typeof section !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(section).map(([name, v]) => [name, describeDependency(v)])
+  );
+}
+
+function readFlavors(projectDir: string, warnings: string[]): FlavorInfo[] {
+  const path = join(projectDir, "flavorizr.yaml");
+  if (!existsSync(path)) return [];
+  let doc: any;
+  try {
+    doc = parse(readFileSync(path, "utf-8"));
+  } catch (err: any) {
+    warnings.push(`flavorizr.yaml is not valid YAML: ${err.message}`);
+    return [];
+  }
+  const flavors = doc?.flavors;
+  if (!flavors || typeof flavors !== "object") {
+    warnings.push("flavorizr.yaml has no `flavors:` map");
+    return [];
+  }
+  return Object.entries<any>(flavors).map(([name, f]) => ({
+    name,
+    appName: f?.app?.name ?? null,
+    applicationId: f?.android?.applicationId ?? null,
+    bundleId: f?.ios?.bundleId ?? null,
+  }));
+}
+
+function readConfigs(projectDir: string): ConfigFileInfo[] {
+  return listConfigEnvs(projectDir).map((env) => {
+    const info: ConfigFileInfo = {
+      file: configFile(env),
+      flavor: env,
+      keys: [],
+      emptyKeys: [],
+    };
+    try {
+      const values = readConfig(projectDir, env);
+      info.keys = Object.keys(values);
+      info.emptyKeys = info.keys.filter(
+        (k) => values[k] === "" || values[k] === null
+      );
+    } catch (err: any) {
+      info.error = err.message;
+    }
+    return info;
+  });
+}
+
+/** The Flutter version pinned by fvm: .fvmrc, or fvm 2's .fvm/fvm_config.json. */
+function readFvmVersion(projectDir: string, warnings: string[]): string | null {
+  for (const [file, key] of [
+    [".fvmrc", "flutter"],
+    [join(".fvm", "fvm_config.json"), "flutterSdkVersion"],
+  ]) {
+    const path = join(projectDir, file);
+    if (!existsSync(path)) continue;
+    try {
+      return JSON.parse(readFileSync(path, "utf-8"))[key] ?? null;
+    } catch {
+      warnings.push(`${file} is not valid JSON`);
+      return null;
+    }
+  }
+  return null;
+}
+
+/** Branch, dirty files and ahead/behind from `git status --porcelain=v2 --branch`. */
+async function readGit(
+  projectDir: string,
+  warnings: string[]
+): Promise<GitInfo | null> {
+  if (!existsSync(join(projectDir, ".git"))) return null;
+  let status: string;
+  try {
+    status = await run(
+      "git",
+      ["status", "--porcelain=v2", "--branch"],
+      projectDir
+    );
+  } catch (err: any) {
+    warnings.push(`git status failed: ${err.message.split("\n")[1] ?? ""}`);
+    return null;
+  }
+  const git: GitInfo = {
+    branch: null,
+    dirtyFiles: 0,
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+  };
+  for (const line of status.split("\n").filter(Boolean)) {
+    if (line.startsWith("# branch.head ")) {
+      const head = line.slice("# branch.head ".length);
+      git.branch = head === "(detached)" ? null : head;
+    } else if (line.startsWith("# branch.upstream ")) {
+      git.upstream = line.slice("# branch.upstream ".length);
+    } else if (line.startsWith("# branch.ab ")) {
+      const [ahead, behind] = line.slice("# branch.ab ".length).split(" ");
+      git.ahead = Number(ahead);
+      git.behind = -Number(behind);
+    } else if (!line.startsWith("#")) {
+      git.dirtyFiles++;
+    }
+  }
+  return git;
+}
+
+/** Gather everything get_project_info reports about a project. */
+export async function readProjectInfo(
+  projectDir: string
+): Promise<ProjectInfo> {
+  const warnings: string[] = [];
+  let pubspec: Record<string, any> = {};
+  try {
+    pubspec = readPubspec(projectDir);
+  } catch (err: any) {
+    warnings.push(err.message);
+  }
+
+  const str = (v: unknown) =>
+    v === undefined || v === null ? null : String(v);
+  return {
+    path: projectDir,
+    name: str(pubspec.name),
+    version: str(pubspec.version),
+    description: str(pubspec.description),
+    dartSdk: str(pubspec.environment?.sdk),
+    dependencies: dependencyMap(pubspec.dependencies),
+    devDependencies: dependencyMap(pubspec.dev_dependencies),
+    flavors: readFlavors(projectDir, warnings),
+    configs: readConfigs(projectDir),
+    fvmFlutterVersion: readFvmVersion(projectDir, warnings),
+    git: await readGit(projectDir, warnings),
+    warnings,
+  };
+}
+
+function formatGit(git: GitInfo | null): string {
+  if (!git) return "not initialised";
+  const parts = [
+    git.branch ? `branch ${git.branch}` : "detached HEAD",
+    git.dirtyFiles
+      ? `${git.dirtyFiles} uncommitted change(s)`
+      : "working tree clean",
+    git.upstream
+      ? `${git.ahead} ahead / ${git.behind} behind ${git.upstream}`
+      : "no upstream",
+  ];
+  return parts.join(", ");
+}
+
+/** Render project info as the tool's text report. */
+export function formatProjectInfo(info: ProjectInfo): string {
+  const lines = [
+    `Project: ${info.path}\n`,
+    `Name:        ${info.name ?? "unknown"}`,
+    `Version:     ${info.version ?? "unknown"}`,
+    `Description: ${info.description ?? "—"}`,
+    `Dart SDK:    ${info.dartSdk ?? "—"}`,
+    `Flutter SDK: ${info.fvmFlutterVersion ? `${info.fvmFlutterVersion} (pinned by fvm)` : "not pinned"}`,
+  ];
+
+  for (const [title, deps] of [
+    ["Dependencies", info.dependencies],
+    ["Dev dependencies", info.devDependencies],
+  ] as const) {
+    const entries = Object.entries(deps);
+    lines.push(`\n${title} (${entries.length}):`);
+    for (const [name, version] of entries) {
+      lines.push(`  • ${name}: ${version}`);
+    }
+  }
+
+  if (info.flavors.length) {
+    lines.push(`\nFlavors (${info.flavors.length}):`);
+    for (const f of info.flavors) {
+      lines.push(
+        `  • ${f.name}: "${f.appName ?? "?"}" — android ${f.applicationId ?? "?"}, ios ${f.bundleId ?? "?"}`
+      );
+    }
+  } else {
+    lines.push("\nFlavors:     none (no flavorizr.yaml)");
+  }
+
+  if (info.configs.length) {
+    lines.push(`\nConfig files (${info.configs.length}):`);
+    for (const c of info.configs) {
+      const state = c.error
+        ? `⚠ ${c.error}`
+        : c.emptyKeys.length
+          ? `empty: ${c.emptyKeys.join(", ")}`
+          : "all keys set";
+      lines.push(`  • ${c.file} — ${state}`);
+    }
+  }
+
+  lines.push(`\nGit:         ${formatGit(info.git)}`);
+
+  if (info.warnings.length) {
+    lines.push("", ...info.warnings.map((w) => `⚠ ${w}`));
+  }
+  return lines.join("\n");
+}
+
+// ─── Project discovery ─────────────────────────────────────────────
+
+export type ProjectKind = "app" | "package" | "plugin";
+
+/** Directories list_flutter_projects never descends into. */
+export const DEFAULT_IGNORED_DIRS = [
+  ".dart_tool",
+  "build",
+  "node_modules",
+  ".git",
+];
+
+export interface ProjectSummary {
+  /** Path relative to the scanned directory ("." for the directory itself). */
+  path: string;
+  name: string | null;
+  version: string | null;
+  kind: ProjectKind;
+  /** Scaffolded by create_flutter_project, or a template with mtdevkit.yaml. */
+  fromTemplate: boolean;
+  flavorCount: number;
+}
+
+/**
+ * A plugin declares `flutter.plugin` in its pubspec; an app has an
+ * entrypoint or platform folders; anything else is a package.
+ */
+function classify(
+  projectDir: string,
+  pubspec: Record<string, any>
+): ProjectKind {
+  if (pubspec.flutter?.plugin) return "plugin";
+  const appMarkers = [join("lib", "main.dart"), "android", "ios", "web"];
+  return appMarkers.some((m) => existsSync(join(projectDir, m)))
+    ? "app"
+    : "package";
+}
+
+function summarize(root: string, projectDir: string): ProjectSummary {
+  let pubspec: Record<string, any> = {};
+  try {
+    pubspec = readPubspec(projectDir);
+  } catch {
+    // Listed anyway, with unknown name and version.
+  }
+  return {
+    path: relative(root, projectDir) || ".",
+    name: typeof pubspec.name === "string" ? pubspec.name : null,
+    version: pubspec.version == null ? null : String(pubspec.version),
+    kind: classify(projectDir, pubspec),
+    fromTemplate:
+      existsSync(join(projectDir, TEMPLATE_RECORD_FILE)) ||
+      existsSync(join(projectDir, JOURNAL_FILE)) ||
+      existsSync(join(projectDir, MANIFEST_FILE)),
+    flavorCount: readFlavors(projectDir, []).length,
+  };
+}
+
+export interface FindProjectsOptions {
+  /** How many directory levels below root to search (0 = root only). */
+  depth: number;
+  /** Directory names to skip in addition to DEFAULT_IGNORED_DIRS. */
+  ignore?: string[];
+}
+
+/** Find Flutter/Dart projects (directories with a pubspec.yaml) under root. */
+export function findFlutterProjects(
+  root: string,
+  opts: FindProjectsOptions
+): ProjectSummary[] {
+  const ignored = new Set([...DEFAULT_IGNORED_DIRS, ...(opts.ignore ?? [])]);
+  const found: ProjectSummary[] = [];
+
+  const visit = (dir: string, level: number) => {
+    if (existsSync(join(dir, "pubspec.yaml"))) {
+      found.push(summarize(root, dir));
+    }
+    if (level >= opts.depth) return;
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directory.
+    }
+    // Symlinks are not followed, so links back up the tree cannot loop.
+    for (const entry of entries) {
+      if (entry.isDirectory() && !ignored.has(entry.name)) {
+        visit(join(dir, entry.name), level + 1);
+      }
+    }
+  };
+
+  visit(root, 0);
+  return found.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Render project summaries as the tool's text report. */
+export function formatProjectList(
+  root: string,
+  projects: ProjectSummary[]
+): string {
+  if (!projects.length) return `No Flutter projects found in ${root}`;
+  const lines = projects.map((p) => {
+    const details = [
+      p.kind,
+      p.version && `v${p.version}`,
+      p.flavorCount && `${p.flavorCount} flavor(s)`,
+      p.fromTemplate && "MT template",
+    ].filter(Boolean);
+    return `  • ${p.path} — ${p.name ?? "unnamed"} (${details.join(", ")})`;
+  });
+  return `Flutter projects in ${root}:\n${lines.join("\n")}`;
+}
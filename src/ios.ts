@@ -0,0 +1,117 @@
+// ─── iOS project editing ───────────────────────────────────────────
+// Plain-text edits of ios/Podfile, ios/Runner/Info.plist and the
+// per-flavor xcconfig files flavorizr generates. No Xcode tooling is
+// involved, so this runs (and is testable) on any OS.
+//
+// Like the Gradle editor, every operation is idempotent and records each
+// real change in `changes`.
+
+export interface TextEdit {
+  text: string;
+  changes: string[];
+}
+
+export interface IosSettings {
+  /** Minimum iOS version for the Podfile `platform :ios` line. */
+  platformVersion: string;
+  /** Info.plist usage descriptions, e.g. NSCameraUsageDescription → text. */
+  permissions: Record<string, string>;
+  /** xcconfig entries per flavor; "*" applies to every flavor. */
+  xcconfig: Record<string, Record<string, string>>;
+}
+
+export const XCCONFIG_BUILD_CONFIGS = ["Debug", "Profile", "Release"];
+
+const PODFILE_PLATFORM_RE =
+  /^[ \t]*#?[ \t]*platform :ios, ['"]([^'"]*)['"][ \t]*$/m;
+
+/** Set (and uncomment) the `platform :ios, '<version>'` line of a Podfile. */
+export function setPodfilePlatform(doc: TextEdit, version: string): void {
+  const wanted = `platform :ios, '${version}'`;
+  const match = doc.text.match(PODFILE_PLATFORM_RE);
+  if (match && match[0].trim() === wanted) return;
+
+  if (match) {
+    doc.text = doc.text.replace(PODFILE_PLATFORM_RE, wanted);
+    doc.changes.push(`Podfile: platform :ios ${match[1]} → ${version}`);
+  } else {
+    doc.text = `${wanted}\n${doc.text}`;
+    doc.changes.push(`Podfile: added ${wanted}`);
+  }
+}
+
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Ensure `<key>K</key><string>V</string>` entries in the top-level dict of an Info.plist. */
+export function ensurePlistStrings(
+  doc: TextEdit,
+  entries: Record<string, string>
+): void {
+  for (const [key, value] of Object.entries(entries)) {
+    const wanted = escapeXml(value);
+    const re = new RegExp(
+      `(<key>${escapeRe(key)}</key>\\s*<string>)([\\s\\S]*?)(</string>)`
+    );
+    const match = doc.text.match(re);
+    if (match) {
+      if (match[2] === wanted) continue;
+      doc.text = doc.text.replace(
+        re,
+        (_, open, __, close) => open + wanted + close
+      );
+      doc.changes.push(`Info.plist: ${key} updated`);
+      continue;
+    }
+
+    const end = doc.text.lastIndexOf("</dict>");
+    if (end < 0) {
+      throw new Error("Info.plist: no top-level <dict> found.");
+    }
+    const lineStart = doc.text.lastIndexOf("\n", end - 1) + 1;
+    const indent = doc.text.slice(lineStart, end).match(/^[ \t]*/)![0];
+    const entryIndent = indent + "\t";
+    doc.text =
+      doc.text.slice(0, lineStart) +
+      `${entryIndent}<key>${escapeXml(key)}</key>\n${entryIndent}<string>${wanted}</string>\n` +
+      doc.text.slice(lineStart);
+    doc.changes.push(`Info.plist: added ${key}`);
+  }
+}
+
+/** Ensure `KEY=value` lines in an xcconfig file. */
+export function ensureXcconfigEntries(
+  doc: TextEdit,
+  file: string,
+  entries: Record<string, string>
+): void {
+  for (const [key, value] of Object.entries(entries)) {
+    const re = new RegExp(
+      `^[ \\t]*${escapeRe(key)}[ \\t]*=[ \\t]*(.*?)[ \\t]*$`,
+      "m"
+    );
+    const match = doc.text.match(re);
+    if (match) {
+      if (match[1] === value) continue;
+      doc.text = doc.text.replace(re, () => `${key}=${value}`);
+      doc.changes.push(`${file}: ${key} updated`);
+      continue;
+    }
+    doc.text = `${doc.text.trimEnd()}${doc.text.trim() ? "\n" : ""}${key}=${value}\n`;
+    doc.changes.push(`${file}: added ${key}`);
+  }
+}
+
+/** Merge the "*" entries with a flavor's own entries. */
+export function xcconfigEntriesFor(
+  settings: IosSettings,
+  flavor: string
+): Record<string, string> {
+  return { ...settings.xcconfig["*"], ...settings.xcconfig[flavor] };
+}
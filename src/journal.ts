@@ -0,0 +1,116 @@
+import {
+  existsSync,
+  mkdirSync,
+  writeFileSync,
+  readFileSync,
+  appendFileSync,
+} from "node:fs";
+import { join, dirname } from "node:path";
+import { FlavorSpec } from "./template.js";
+import { IosSettings } from "./ios.js";
+import { GitSettings } from "./git.js";
+import { ReleaseKeySettings } from "./android.js";
+
+// ─── Step journal ──────────────────────────────────────────────────
+// Every completed step of create_flutter_project is recorded in
+// .mtdevkit/journal.json inside the project, so a failed run can be
+// resumed with `resume: true` instead of starting from scratch.
+
+export const JOURNAL_FILE = join(".mtdevkit", "journal.json");
+
+export interface JournalEntry {
+  id: string;
+  title: string;
+  completedAt: string;
+}
+
+export interface StepJournal {
+  name: string;
+  org: string;
+  template: string;
+  /** Flavors passed to the original run, reused when resuming. */
+  flavors?: FlavorSpec[];
+  /** iOS settings passed to the original run, reused when resuming. */
+  ios?: Partial<IosSettings>;
+  /** Branch, origin and push settings of the original run, reused when resuming. */
+  git?: GitSettings;
+  /** Release key settings of the original run, without the password. */
+  androidSigning?: Omit<ReleaseKeySettings, "password">;
+  startedAt: string;
+  updatedAt: string;
+  completed: JournalEntry[];
+  failed?: { id: string; title: string; error: string; at: string };
+}
+
+/** Read the step journal of a project, or null if there is none. */
+export function readJournal(projectDir: string): StepJournal | null {
+  const path = join(projectDir, JOURNAL_FILE);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as StepJournal;
+  } catch {
+    throw new Error(`Step journal at ${path} is not valid JSON.`);
+  }
+}
+
+/**
+ * Persist the step journal. The project directory only exists once the
+ * template has been cloned, so earlier calls are a no-op and the entries
+ * are flushed by the next call after the clone step.
+ */
+export function writeJournal(projectDir: string, journal: StepJournal): void {
+  if (!existsSync(projectDir)) return;
+  const path = join(projectDir, JOURNAL_FILE);
+  mkdirSync(dirname(path), { recursive: true });
+  journal.updatedAt = new Date().toISOString();
+  writeFileSync(path, JSON.stringify(journal, null, 2) + "\n");
+}
+
+// ─── Template record ───────────────────────────────────────────────
+// The template commit a project was generated from, committed with the
+// project in .mtdevkit/template.json. sync_with_template diffs against it
+// and moves it forward on the branch it creates.
+
+export const TEMPLATE_RECORD_FILE = join(".mtdevkit", "template.json");
+
+export interface TemplateRecord {
+  /** Template URL or local path, as passed to app_starter_plus. */
+  url: string;
+  commit: string;
+  /** Org the project was generated with, needed to render the template again. */
+  org: string;
+}
+
+/** Read a project's template record, or null if there is none. */
+export function readTemplateRecord(projectDir: string): TemplateRecord | null {
+  const path = join(projectDir, TEMPLATE_RECORD_FILE);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as TemplateRecord;
+  } catch {
+    throw new Error(`Template record at ${path} is not valid JSON.`);
+  }
+}
+
+export function writeTemplateRecord(
+  projectDir: string,
+  record: TemplateRecord
+): void {
+  const path = join(projectDir, TEMPLATE_RECORD_FILE);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(record, null, 2) + "\n");
+}
+
+/** Add a pattern to .git/info/exclude so `git add -A` never picks it up. */
+export function excludeFromGit(projectDir: string, pattern: string): void {
+  const excludePath = join(projectDir, ".git", "info", "exclude");
+  const current = existsSync(excludePath)
+    ? readFileSync(excludePath, "utf-8")
+    : "";
+  if (current.split("\n").includes(pattern)) return;
+  mkdirSync(dirname(excludePath), { recursive: true });
+  appendFileSync(
+    excludePath,
+    `${current && !current.endsWith("\n") ? "\n" : ""}${pattern}\n`
+  );
+}
@@ -0,0 +1,29 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse } from "yaml";
+
+// ─── Existing project helpers ──────────────────────────────────────
+
+/** Parse pubspec.yaml of a project. Throws if it is missing or invalid. */
+export function readPubspec(projectDir: string): Record<string, any> {
+  const path = join(projectDir, "pubspec.yaml");
+  if (!existsSync(path)) {
+    throw new Error(
+      `No pubspec.yaml found in ${projectDir} — not a Flutter project?`
+    );
+  }
+  try {
+    return parse(readFileSync(path, "utf-8")) ?? {};
+  } catch (err: any) {
+    throw new Error(`pubspec.yaml is not valid YAML: ${err.message}`);
+  }
+}
+
+/** The Dart package name of a project, from pubspec.yaml. */
+export function readPackageName(projectDir: string): string {
+  const name = readPubspec(projectDir).name;
+  if (typeof name !== "string" || !name) {
+    throw new Error(`pubspec.yaml in ${projectDir} has no name.`);
+  }
+  return name;
+}
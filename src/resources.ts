@@ -0,0 +1,238 @@
+import { EventEmitter } from "node:events";
+import { join } from "node:path";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { isAllowed } from "./access.js";
+import { findFlutterProjects, readProjectInfo } from "./info.js";
+import { readPackageName } from "./project.js";
+import {
+  ScaffoldRun,
+  formatRun,
+  listRuns,
+  readRun,
+  runEvents,
+} from "./runs.js";
+import { DEFAULT_MANIFEST, configJson, flavorizrYaml } from "./template.js";
+
+// ─── MCP resources ─────────────────────────────────────────────────
+// Read-only context for agents, without re-running tools:
+//   mtdevkit://projects/{name}    get_project_info data, as JSON
+//   mtdevkit://templates/default  what the built-in defaults generate
+//   mtdevkit://runs/{id}          the log of a create_flutter_project run
+// Subscribers hear about runs as they progress and about projects changed
+// by this server's tools.
+
+const PROJECTS_URI = "mtdevkit://projects/";
+const RUNS_URI = "mtdevkit://runs/";
+const TEMPLATE_URI = "mtdevkit://templates/default";
+
+/** Runs listed by resources/list; older ones can still be read by id. */
+const LISTED_RUNS = 100;
+
+/** Name and org the default template resource renders with. */
+const SAMPLE_PROJECT = { name: "example_app", org: "com.example" };
+
+/** Emits "changed" with the project directory after a tool edits a project. */
+const projectEvents = new EventEmitter().setMaxListeners(0);
+runEvents.setMaxListeners(0);
+
+/** Tell resource subscribers that a tool changed a project. */
+export function notifyProjectChanged(projectDir: string): void {
+  projectEvents.emit("changed", projectDir);
+}
+
+/** What the built-in defaults generate, with the sample name and org. */
+function defaultTemplate() {
+  const { name, org } = SAMPLE_PROJECT;
+  const m = DEFAULT_MANIFEST;
+  return {
+    sample: SAMPLE_PROJECT,
+    flavors: m.flavors,
+    files: {
+      "flavorizr.yaml": flavorizrYaml(name, org, m.flavors),
+      ...Object.fromEntries(
+        m.flavors.map((f) => [
+          `config/app_config_${f.name}.json`,
+          configJson(f.name, m.config) + "\n",
+        ])
+      ),
+      "android/app/proguard-rules.pro": m.proguardRules,
+    },
+    gradleDependencies: m.gradleDependencies.map(
+      (d) => `${d.configuration}("${d.notation}")`
+    ),
+    buildTypes: m.buildTypes,
+    ios: m.ios,
+    prompts: m.prompts,
+    features: m.features,
+  };
+}
+
+/** Register the resources, scoped to allowedDirs when the server has them. */
+export function registerResources(
+  server: McpServer,
+  allowedDirs?: string[]
+): void {
+  const roots = allowedDirs ?? [process.cwd()];
+  const allowed = (path: string) => isAllowed(path, allowedDirs);
+
+  // Addressed by pubspec name, so unnamed projects are left out.
+  const projects = () =>
+    roots
+      .flatMap((root) =>
+        findFlutterProjects(root, { depth: 2 }).map((p) => ({
+          ...p,
+          path: join(root, p.path),
+        }))
+      )
+      .filter((p): p is typeof p & { name: string } => p.name !== null);
+  const runs = () => listRuns().filter((r) => allowed(r.projectDir));
+
+  server.resource(
+    "project",
+    new ResourceTemplate(`${PROJECTS_URI}{name}`, {
+      list: async () => ({
+        resources: projects().map((p) => ({
+          uri: `${PROJECTS_URI}${p.name}`,
+          name: p.name,
+          description: `${p.kind} at ${p.path}`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        name: (value) =>
+          projects()
+            .map((p) => p.name)
+            .filter((n) => n.startsWith(value)),
+      },
+    }),
+    {
+      description: `A Flutter project under ${roots.join(", ")}, by pubspec name: the get_project_info data`,
+      mimeType: "application/json",
+    },
+    async (uri, { name }) => {
+      const matches = projects().filter((p) => p.name === name);
+      if (!matches.length) throw new Error(`No project named ${name}`);
+      if (matches.length > 1) {
+        throw new Error(
+          `Several projects are named ${name}: ${matches.map((p) => p.path).join(", ")} — use get_project_info with a path`
+        );
+      }
+      const info = await readProjectInfo(matches[0].path);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(info, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.resource(
+    "default-template",
+    TEMPLATE_URI,
+    {
+      description: `What create_flutter_project generates without a template mtdevkit.yaml (rendered for ${SAMPLE_PROJECT.name} / ${SAMPLE_PROJECT.org}): flavorizr.yaml, config files, Gradle dependencies, ProGuard rules, iOS settings`,
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(defaultTemplate(), null, 2),
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    "run",
+    new ResourceTemplate(`${RUNS_URI}{id}`, {
+      list: async () => ({
+        resources: runs()
+          .slice(0, LISTED_RUNS)
+          .map((r) => ({
+            uri: `${RUNS_URI}${r.id}`,
+            name: r.id,
+            description: `${r.name}: ${r.status}${r.dryRun ? " (dry run)" : ""}`,
+            mimeType: "text/plain",
+          })),
+      }),
+    }),
+    {
+      description:
+        "The log of a create_flutter_project run (newest first), updated after every step while it runs",
+      mimeType: "text/plain",
+    },
+    async (uri, { id }) => {
+      const run = readRun(String(id));
+      if (!run || !allowed(run.projectDir)) {
+        throw new Error(`No run with id ${id}`);
+      }
+      return {
+        contents: [
+          { uri: uri.href, mimeType: "text/plain", text: formatRun(run) },
+        ],
+      };
+    }
+  );
+
+  // ── Subscriptions ───────────────────────────────────────────────
+  const subscribed = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (req) => {
+    subscribed.add(req.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (req) => {
+    subscribed.delete(req.params.uri);
+    return {};
+  });
+
+  const updated = (uri: string) => {
+    if (subscribed.has(uri) && server.isConnected()) {
+      server.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  };
+  const onProjectChanged = (projectDir: string) => {
+    if (!allowed(projectDir)) return;
+    try {
+      updated(`${PROJECTS_URI}${readPackageName(projectDir)}`);
+    } catch {
+      // Not (or no longer) a project with a readable pubspec.
+    }
+  };
+  // Runs still going that the list already has. A finished run is
+  // forgotten; saving it again at most repeats a list change.
+  const seenRuns = new Set<string>();
+  const onRunSaved = (run: ScaffoldRun) => {
+    if (!allowed(run.projectDir)) return;
+    if (!seenRuns.has(run.id)) server.sendResourceListChanged();
+    updated(`${RUNS_URI}${run.id}`);
+    if (run.status === "running") {
+      seenRuns.add(run.id);
+    } else {
+      seenRuns.delete(run.id);
+      onProjectChanged(run.projectDir);
+    }
+  };
+
+  projectEvents.on("changed", onProjectChanged);
+  runEvents.on("saved", onRunSaved);
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    projectEvents.off("changed", onProjectChanged);
+    runEvents.off("saved", onRunSaved);
+    onclose?.();
+  };
+}
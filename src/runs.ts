@@ -0,0 +1,105 @@
+import { EventEmitter } from "node:events";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  writeFileSync,
+} from "node:fs";
+import { randomBytes } from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// ─── Scaffold run history ──────────────────────────────────────────
+// Every create_flutter_project run (batch runs included) is saved as
+// ~/.mtdevkit/runs/<id>.json when it starts, after each step and when it
+// ends, and served as the mtdevkit://runs/{id} resource. runEvents tells
+// resource subscribers about each save.
+
+/** Override with MTDEVKIT_RUNS_DIR. */
+export function runsDir(): string {
+  return process.env.MTDEVKIT_RUNS_DIR ?? join(homedir(), ".mtdevkit", "runs");
+}
+
+export type RunStatus = "running" | "succeeded" | "failed";
+
+export interface ScaffoldRun {
+  id: string;
+  name: string;
+  org: string;
+  projectDir: string;
+  dryRun: boolean;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  /** Id of the step that failed. */
+  failedStep?: string;
+  log: string[];
+}
+
+/** Emits "saved" with the run after every saveRun(). */
+export const runEvents = new EventEmitter();
+
+/** A sortable, readable id such as 20250131T090000Z-my_app-3f2a. */
+export function newRunId(name: string): string {
+  const stamp = new Date().toISOString().replace(/[-:]|\.\d+/g, "");
+  return `${stamp}-${name}-${randomBytes(2).toString("hex")}`;
+}
+
+const RUN_ID_RE = /^[0-9TZ]+-[a-z0-9_]+-[0-9a-f]{4}$/;
+
+/**
+ * Save a run. A failure to write is reported on stderr but never fails the
+ * scaffold, like the audit log.
+ */
+export function saveRun(run: ScaffoldRun): void {
+  try {
+    mkdirSync(runsDir(), { recursive: true });
+    writeFileSync(
+      join(runsDir(), `${run.id}.json`),
+      JSON.stringify(run, null, 2) + "\n"
+    );
+  } catch (err: any) {
+    console.error(`MTDevKit: could not save run ${run.id}: ${err.message}`);
+  }
+  runEvents.emit("saved", run);
+}
+
+/** Read a run by id, or null if there is none. */
+export function readRun(id: string): ScaffoldRun | null {
+  if (!RUN_ID_RE.test(id)) return null;
+  const path = join(runsDir(), `${id}.json`);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as ScaffoldRun;
+  } catch {
+    return null;
+  }
+}
+
+/** Saved runs, newest first. Unreadable files are skipped. */
+export function listRuns(): ScaffoldRun[] {
+  if (!existsSync(runsDir())) return [];
+  return readdirSync(runsDir())
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .reverse()
+    .map((f) => readRun(f.slice(0, -".json".length)))
+    .filter((run): run is ScaffoldRun => run !== null);
+}
+
+/** Render a run as plain text: a header, then its log. */
+export function formatRun(run: ScaffoldRun): string {
+  const header = [
+    `Run ${run.id} — ${run.status}${run.dryRun ? " (dry run)" : ""}`,
+    `Project: ${run.name} (${run.org}) in ${run.projectDir}`,
+    `Started: ${run.startedAt}${run.finishedAt ? `, finished: ${run.finishedAt}` : ""}`,
+    ...(run.error
+      ? [
+          `Error${run.failedStep ? ` in step ${run.failedStep}` : ""}: ${run.error}`,
+        ]
+      : []),
+  ];
+  return `${header.join("\n")}\n\n${run.log.join("\n")}`;
+}
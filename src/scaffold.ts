@@ -0,0 +1,435 @@
+import { existsSync, rmSync } from "node:fs";
+import { resolve, join } from "node:path";
+import {
+  DEFAULT_COMMAND_TIMEOUT_MS,
+  detectFvm,
+  commandExists,
+  formatDuration,
+  recordPlanned,
+  withCommandContext,
+} from "./exec.js";
+import { checkGitIdentity } from "./doctor.js";
+import {
+  JOURNAL_FILE,
+  StepJournal,
+  readJournal,
+  writeJournal,
+} from "./journal.js";
+import {
+  ScaffoldContext,
+  ScaffoldStep,
+  SCAFFOLD_STEPS,
+  selectSteps,
+  stepMsg,
+} from "./steps.js";
+import { FlavorSpec } from "./template.js";
+import { IosSettings } from "./ios.js";
+import { GitSettings } from "./git.js";
+import { GENERATED_KEYSTORE, ReleaseKeySettings } from "./android.js";
+import { ScaffoldRun, newRunId, saveRun } from "./runs.js";
+
+// ─── Constants ─────────────────────────────────────────────────────
+export const DEFAULT_TEMPLATE =
+  "https://bitbucket.org/mtinnovation/flutter_clean_template_2025";
+
+// ─── Pipeline runner ───────────────────────────────────────────────
+
+export interface ScaffoldOptions {
+  name: string;
+  org: string;
+  template?: string;
+  dir?: string;
+  dryRun?: boolean;
+  resume?: boolean;
+  /** Overrides the flavors from the template manifest. */
+  flavors?: FlavorSpec[];
+  /** Overrides the iOS settings from the template manifest. */
+  ios?: Partial<IosSettings>;
+  /** Default branch, origin and whether to push once every step has run. */
+  git?: GitSettings;
+  /** Release key to generate or reuse in configure-android. */
+  androidSigning?: ReleaseKeySettings;
+  onlySteps?: string[];
+  skipSteps?: string[];
+  /**
+   * What to do when a step fails: "keep" (default) leaves everything in
+   * place for a resume, "rollback" undoes this run's changes.
+   */
+  onFailure?: "keep" | "rollback";
+  /** Per-command time limits by step id, overriding the steps' defaults. */
+  timeoutsMs?: Record<string, number>;
+  /** Aborting stops the running command and fails the run at that step. */
+  signal?: AbortSignal;
+  /** Called for every log line as soon as it is written. */
+  onLog?: (line: string) => void;
+  /** Called when each step starts, and once more when the run finishes. */
+  onProgress?: (done: number, total: number, message: string) => void;
+}
+
+export interface ScaffoldResult {
+  ok: boolean;
+  /** Id of the saved run (mtdevkit://runs/{id}). */
+  runId: string;
+  projectDir: string;
+  log: string[];
+  error?: string;
+  /** The step that threw, if any. */
+  failedStep?: ScaffoldStep;
+  /** Whether the failure was recorded in the journal and can be resumed. */
+  resumable?: boolean;
+  /** What on_failure=rollback cleaned up or had to leave behind. */
+  cleanup?: string[];
+}
+
+/** Release key settings as journaled: passwords never go to disk there. */
+function omitPassword({
+  password: _,
+  ...settings
+}: ReleaseKeySettings): Omit<ReleaseKeySettings, "password"> {
+  return settings;
+}
+
+/**
+ * Undo the steps completed in this run. A project directory created by
+ * this run is simply deleted; one that existed before (resume, only_steps)
+ * is rolled back step by step, newest first.
+ */
+async function rollbackRun(
+  ctx: ScaffoldContext,
+  ran: ScaffoldStep[],
+  journal: StepJournal | null
+): Promise<string[]> {
+  const cleanup: string[] = [];
+
+  if (!ctx.projectExisted) {
+    if (existsSync(ctx.projectDir)) {
+      rmSync(ctx.projectDir, { recursive: true, force: true });
+      cleanup.push(`✔ Removed ${ctx.projectDir} (created by this run)`);
+    }
+  } else {
+    for (const step of [...ran].reverse()) {
+      if (!step.rollback) {
+        cleanup.push(
+          `⚠ Not rolled back (no rollback available): ${step.title}`
+        );
+        continue;
+      }
+      try {
+        await step.rollback(ctx);
+        cleanup.push(`✔ Rolled back: ${step.title}`);
+      } catch (err: any) {
+        cleanup.push(`⚠ Could not roll back ${step.title}: ${err.message}`);
+      }
+    }
+    if (journal) {
+      journal.completed = journal.completed.filter(
+        (e) => !ran.some((s) => s.id === e.id)
+      );
+    }
+    cleanup.push(`Kept ${ctx.projectDir} (it existed before this run)`);
+  }
+
+  for (const step of ran) {
+    if (step.sideEffect) cleanup.push(`⚠ Left in place: ${step.sideEffect}`);
+  }
+  return cleanup;
+}
+
+/** Run the scaffold step registry. Never throws; failures are reported in the result. */
+export async function scaffoldProject(
+  opts: ScaffoldOptions
+): Promise<ScaffoldResult> {
+  const { name, org } = opts;
+  const parentDir = resolve(opts.dir ?? process.cwd());
+  const projectDir = join(parentDir, name);
+  const dryRun = opts.dryRun ?? false;
+  const log: string[] = [];
+
+  const push = (msg: string) => {
+    log.push(msg);
+    opts.onLog?.(msg);
+  };
+
+  const run: ScaffoldRun = {
+    id: newRunId(name),
+    name,
+    org,
+    projectDir,
+    dryRun,
+    status: "running",
+    startedAt: new Date().toISOString(),
+    log,
+  };
+  saveRun(run);
+
+  let journal: StepJournal | null = null;
+  let ctx: ScaffoldContext | null = null;
+  let current: ScaffoldStep | null = null;
+  const ran: ScaffoldStep[] = [];
+
+  try {
+    const steps = selectSteps(opts.onlySteps, opts.skipSteps);
+    const timeouts = opts.timeoutsMs ?? {};
+    // Validates the ids in timeoutsMs the same way as only/skip_steps.
+    selectSteps(Object.keys(timeouts));
+    // A journal is kept up to date whenever one exists, but completed
+    // steps are only skipped when resuming.
+    const existing = readJournal(projectDir);
+    const previous = opts.resume ? existing : null;
+    const templateUrl = opts.template ?? existing?.template ?? DEFAULT_TEMPLATE;
+    const flavors = opts.flavors ?? existing?.flavors;
+    const ios = opts.ios ?? existing?.ios;
+    const git = opts.git ?? existing?.git;
+    // The password is never journaled; a resumed run has to pass it again.
+    const androidSigning = opts.androidSigning ?? existing?.androidSigning;
+    const isDone = (step: ScaffoldStep) =>
+      previous?.completed.some((e) => e.id === step.id) ?? false;
+
+    // ── Detect tooling ───────────────────────────────────────
+    const useFvm = await detectFvm();
+    const hasGit = await commandExists("git");
+    const runner = useFvm ? "fvm" : "flutter/dart (fvm not found)";
+
+    push(`Project:  ${name}`);
+    push(`Org:      ${org}`);
+    push(`Template: ${templateUrl}`);
+    push(`Location: ${projectDir}`);
+    push(`Runner:   ${runner}`);
+    if (flavors) push(`Flavors:  ${flavors.map((f) => f.name).join(", ")}`);
+    if (git?.remoteUrl || git?.defaultBranch) {
+      push(
+        `Git:      ${[
+          git.defaultBranch && `branch ${git.defaultBranch}`,
+          git.remoteUrl && `origin ${git.remoteUrl}`,
+          git.push && "push when done",
+        ]
+          .filter(Boolean)
+          .join(", ")}`
+      );
+    }
+    if (androidSigning) {
+      push(
+        `Signing:  ${androidSigning.keystore ? `keystore ${androidSigning.keystore}` : `new keystore at ${GENERATED_KEYSTORE}`}`
+      );
+    }
+    if (steps.length !== SCAFFOLD_STEPS.length) {
+      push(`Steps:    ${steps.map((s) => s.id).join(", ")}`);
+    }
+    if (Object.keys(timeouts).length) {
+      push(
+        `Timeouts: ${Object.entries(timeouts)
+          .map(([id, ms]) => `${id} ${formatDuration(ms)}`)
+          .join(", ")}`
+      );
+    }
+    if (dryRun) push("Mode:     DRY RUN\n");
+    if (previous) {
+      push(
+        `Resuming: ${previous.completed.length}/${SCAFFOLD_STEPS.length} steps already completed\n`
+      );
+    }
+
+    // ── Pre-flight checks ────────────────────────────────────
+    // The project directory must not exist yet if we are going to clone
+    // the template into it, and must exist for any later step.
+    const clones = steps.some((s) => s.id === "clone-template" && !isDone(s));
+
+    const duplicate = flavors?.find(
+      (f, i) => flavors.findIndex((g) => g.name === f.name) !== i
+    );
+    if (duplicate) {
+      throw new Error(`Flavor '${duplicate.name}' is listed more than once.`);
+    }
+    if (git?.push && !git.remoteUrl) {
+      throw new Error("push needs a remote_url to push to.");
+    }
+    if (existing && (existing.name !== name || existing.org !== org)) {
+      throw new Error(
+        `Journal in '${projectDir}' belongs to ${existing.name} (${existing.org}), not ${name} (${org}).`
+      );
+    }
+    if (!dryRun) {
+      if (!useFvm && !(await commandExists("flutter"))) {
+        throw new Error(
+          "Neither fvm nor flutter found on PATH. Install Flutter or fvm first."
+        );
+      }
+      if (!hasGit) throw new Error("git is not installed.");
+      const commits = steps.some(
+        (s) =>
+          !isDone(s) &&
+          (s.id === "commit-before-flavorizr" ||
+            (s.id === "commit-and-push" && git?.push))
+      );
+      if (commits) {
+        const identity = await checkGitIdentity(
+          existsSync(projectDir) ? projectDir : undefined
+        );
+        if (identity.status === "fail") {
+          throw new Error(`Git ${identity.detail}. Fix: ${identity.hint}`);
+        }
+      }
+      if (clones && existsSync(projectDir)) {
+        throw new Error(
+          opts.resume && !previous
+            ? `Directory '${projectDir}' exists but has no step journal (${JOURNAL_FILE}) — nothing to resume.`
+            : `Directory '${projectDir}' already exists. Remove it, choose a different name, or pass resume=true to continue a failed run.`
+        );
+      }
+      if (!clones && !existsSync(projectDir)) {
+        throw new Error(
+          `Directory '${projectDir}' does not exist. Include the clone-template step to create it.`
+        );
+      }
+    } else {
+      push(
+        `[pre-flight] Would verify: flutter/fvm, git installed, git identity set; ${projectDir} ${clones ? "does not exist" : "exists"}`
+      );
+    }
+
+    const now = new Date().toISOString();
+    journal = existing ?? {
+      name,
+      org,
+      template: templateUrl,
+      flavors,
+      ios,
+      git,
+      androidSigning: androidSigning && omitPassword(androidSigning),
+      startedAt: now,
+      updatedAt: now,
+      completed: [],
+    };
+
+    ctx = {
+      name,
+      org,
+      templateUrl,
+      parentDir,
+      projectDir,
+      projectExisted: existsSync(projectDir),
+      push,
+      backups: new Map(),
+      flavors,
+      ios,
+      git,
+      androidSigning,
+    };
+
+    // ── Steps ────────────────────────────────────────────────
+    for (const [i, step] of steps.entries()) {
+      opts.onProgress?.(i, steps.length, stepMsg(step));
+      push(stepMsg(step));
+      if (isDone(step)) {
+        push("↷ Already completed in a previous run — skipping");
+        continue;
+      }
+
+      if (dryRun) {
+        await withCommandContext(
+          { project: projectDir, step: step.id },
+          async () => {
+            for (const line of step.describe(ctx!)) {
+              push(`  [dry-run] ${line}`);
+              recordPlanned(line);
+            }
+          }
+        );
+        continue;
+      }
+
+      if (opts.signal?.aborted) {
+        throw new Error(`Cancelled by the client before step ${step.id}`);
+      }
+      current = step;
+      await withCommandContext(
+        {
+          project: projectDir,
+          step: step.id,
+          timeoutMs:
+            timeouts[step.id] ?? step.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+          ...(opts.signal && { signal: opts.signal }),
+        },
+        () => step.execute(ctx!)
+      );
+      current = null;
+      ran.push(step);
+
+      journal.completed = journal.completed.filter((e) => e.id !== step.id);
+      journal.completed.push({
+        id: step.id,
+        title: step.title,
+        completedAt: new Date().toISOString(),
+      });
+      delete journal.failed;
+      writeJournal(projectDir, journal);
+      saveRun(run);
+    }
+
+    // ── Done ─────────────────────────────────────────────────
+    opts.onProgress?.(steps.length, steps.length, "Done");
+    if (dryRun) {
+      push("\n── Dry run complete! No changes were made. ──");
+    } else {
+      push(`\n── Setup complete! ──`);
+      push(`Project location: ${projectDir}`);
+      push(`\nNext steps:`);
+      push(`  1. Fill in config/app_config_*.json with your API keys`);
+      push(`  2. Open ${projectDir} in your IDE and start building`);
+    }
+
+    saveRun({
+      ...run,
+      status: "succeeded",
+      finishedAt: new Date().toISOString(),
+    });
+    return { ok: true, runId: run.id, projectDir, log };
+  } catch (err: any) {
+    const failedStep = current as ScaffoldStep | null;
+    let resumable = false;
+    let cleanup: string[] | undefined;
+
+    // "keep" leaves even the failed step's partial changes in place: its
+    // rollback may delete the project (clone-template), and every step
+    // can be run again over what it left behind on resume.
+    if (opts.onFailure === "rollback" && ctx) {
+      if (failedStep) {
+        try {
+          await failedStep.rollback?.(ctx);
+        } catch (rollbackErr: any) {
+          push(`⚠ Could not undo partial changes: ${rollbackErr.message}`);
+        }
+      }
+      cleanup = await rollbackRun(ctx, ran, journal);
+    }
+
+    if (failedStep && journal && existsSync(projectDir)) {
+      journal.failed = {
+        id: failedStep.id,
+        title: failedStep.title,
+        error: err.message,
+        at: new Date().toISOString(),
+      };
+      writeJournal(projectDir, journal);
+      resumable = true;
+    }
+
+    saveRun({
+      ...run,
+      status: "failed",
+      finishedAt: new Date().toISOString(),
+      error: err.message,
+      failedStep: failedStep?.id,
+    });
+    return {
+      ok: false,
+      runId: run.id,
+      projectDir,
+      log,
+      error: err.message,
+      failedStep: failedStep ?? undefined,
+      resumable,
+      cleanup,
+    };
+  }
+}
@@ -0,0 +1,1283 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { existsSync } from "node:fs";
+import { CommandContext, detectFvm, withCommandContext } from "./exec.js";
+import { isAllowed, localGitPath, resolveAllowed } from "./access.js";
+import { DEFAULT_TEMPLATE, scaffoldProject } from "./scaffold.js";
+import { SCAFFOLD_STEPS, STEP_IDS, stepMsg } from "./steps.js";
+import {
+  BUILD_TYPE_NAME_RE,
+  DART_PACKAGE_NAME_RE,
+  FlavorSpec,
+  flavorName,
+} from "./template.js";
+import { addFlavor, removeFlavor } from "./flavors.js";
+import { generateFeature } from "./feature.js";
+import { syncWithTemplate } from "./sync.js";
+import { formatBatchResult, loadBatchSpec, scaffoldBatch } from "./batch.js";
+import { checkEnvironment, formatChecks } from "./doctor.js";
+import { auditLogPath, formatAuditEntry, readAudit } from "./audit.js";
+import {
+  configFile,
+  configReport,
+  formatConfigReports,
+  listConfigEnvs,
+  setConfigValues,
+} from "./config.js";
+import {
+  DEFAULT_IGNORED_DIRS,
+  findFlutterProjects,
+  formatProjectInfo,
+  formatProjectList,
+  readProjectInfo,
+} from "./info.js";
+import { IosSettings } from "./ios.js";
+import { ReleaseKeySettings, configureAndroidSigning } from "./android.js";
+import { notifyProjectChanged, registerResources } from "./resources.js";
+
+// ─── Constants ─────────────────────────────────────────────────────
+/** A safe subset of `git check-ref-format --branch`. */
+const GIT_BRANCH_RE =
+  /^(?![-/.])(?!.*(\.\.|\/\/|\/\.))[A-Za-z0-9._/-]+(?<![/.]|\.lock)$/;
+
+// ─── Shared parameter shapes ───────────────────────────────────────
+const flavorParam = z.object({
+  name: flavorName().describe("Flavor name, e.g. staging"),
+  display_name_prefix: z
+    .string()
+    .optional()
+    .describe('Prefix for the app display name, e.g. "[STG] "'),
+  application_id_suffix: z
+    .string()
+    .optional()
+    .describe('Suffix for the applicationId/bundleId, e.g. ".staging"'),
+});
+
+const iosParam = z.object({
+  platform_version: z
+    .string()
+    .regex(/^\d+(\.\d+)*$/, "Must be a version such as 13.0")
+    .optional()
+    .describe("Minimum iOS version for the Podfile, e.g. 13.0"),
+  permissions: z
+    .record(z.string())
+    .optional()
+    .describe(
+      'Info.plist usage descriptions, e.g. { "NSCameraUsageDescription": "Scan QR codes" }'
+    ),
+  xcconfig: z
+    .record(z.record(z.string()))
+    .optional()
+    .describe(
+      'xcconfig entries per flavor; "*" applies to every flavor and {{flavor}} is substituted'
+    ),
+});
+
+const releaseKeyParam = z.object({
+  keystore: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Absolute path to an existing keystore to sign with (default: generate android/upload-keystore.jks with keytool)"
+    ),
+  alias: z.string().min(1).optional().describe("Key alias (default: upload)"),
+  password: z
+    .string()
+    .min(6)
+    .optional()
+    .describe(
+      "Keystore and key password; required with keystore, random when generating. Only written to android/key.properties"
+    ),
+  distinguished_name: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Distinguished name of a generated key, e.g. "CN=My App, O=Acme, C=MU" (default: CN=<app display name>)'
+    ),
+  validity_days: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Validity of a generated key in days (default: 10000)"),
+});
+
+const buildTypeParam = z.object({
+  minify: z
+    .boolean()
+    .optional()
+    .describe("Shrink and obfuscate code with R8 (isMinifyEnabled)"),
+  shrink: z
+    .boolean()
+    .optional()
+    .describe("Remove unused resources (isShrinkResources); needs minify"),
+  signing: z
+    .enum(["debug", "release"])
+    .nullable()
+    .optional()
+    .describe(
+      'Key to sign with: "debug", or "release" for the key in android/key.properties (debug key until it exists); null leaves signingConfig alone'
+    ),
+});
+
+function toIosSettings(ios: z.infer<typeof iosParam>): Partial<IosSettings> {
+  return {
+    ...(ios.platform_version && { platformVersion: ios.platform_version }),
+    ...(ios.permissions && { permissions: ios.permissions }),
+    ...(ios.xcconfig && { xcconfig: ios.xcconfig }),
+  };
+}
+
+function toReleaseKeySettings(
+  key: z.infer<typeof releaseKeyParam>
+): ReleaseKeySettings {
+  return {
+    keystore: key.keystore,
+    alias: key.alias,
+    password: key.password,
+    dname: key.distinguished_name,
+    validityDays: key.validity_days,
+  };
+}
+
+function toFlavorSpec(f: z.infer<typeof flavorParam>): FlavorSpec {
+  return {
+    name: f.name,
+    displayNamePrefix: f.display_name_prefix ?? "",
+    applicationIdSuffix: f.application_id_suffix ?? "",
+  };
+}
+
+// ─── Live progress ─────────────────────────────────────────────────
+// Long-running tools stream their log lines and command output as
+// notifications/message, at or above the level the client chose with
+// logging/setLevel, and step starts as notifications/progress when
+// the client sent a progressToken, so clients can show progress live.
+// Cancelling the request (notifications/cancelled) kills the running
+// command through the request's abort signal.
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+function notifier(server: McpServer, extra: ToolExtra, tool: string) {
+  const token = extra._meta?.progressToken;
+  const send = (notification: ServerNotification) =>
+    extra.sendNotification(notification).catch(() => {});
+
+  // Through the SDK, which drops lines below the client's logging level.
+  const log = (data: string, level: "info" | "debug" = "info") =>
+    server.server
+      .sendLoggingMessage({ level, logger: "MTDevKit", data }, extra.sessionId)
+      .catch(() => {});
+
+  const commandContext: CommandContext = {
+    tool,
+    signal: extra.signal,
+    onCommand: (command, args) =>
+      log(`$ ${command} ${args.join(" ")}`, "debug"),
+    onOutput: (chunk) => {
+      if (chunk.trim()) log(chunk.trimEnd(), "debug");
+    },
+  };
+
+  return {
+    log,
+    commandContext,
+    progress: (progress: number, total: number, message: string) => {
+      if (token === undefined) return;
+      send({
+        method: "notifications/progress",
+        params: { progressToken: token, progress, total, message },
+      });
+    },
+  };
+}
+
+// ─── MCP Server ────────────────────────────────────────────────────
+
+export interface ServerOptions {
+  /**
+   * Directories that dir / path arguments must lie within. Undefined lets
+   * them point anywhere, as when each developer runs their own copy.
+   */
+  allowedDirs?: string[];
+}
+
+/**
+ * Build a server with every prompt and tool registered. The HTTP transport
+ * creates one per session; stdio creates one for the process.
+ */
+export function createServer(options: ServerOptions = {}): McpServer {
+  const server = new McpServer(
+    {
+      name: "MTDevKit",
+      version: "1.0.0",
+    },
+    { capabilities: { logging: {} } }
+  );
+
+  registerResources(server, options.allowedDirs);
+
+  /** Resolve a dir / path argument (default: cwd), refusing it outside allowedDirs. */
+  const allowedPath = (path?: string) =>
+    resolveAllowed(path ?? process.cwd(), options.allowedDirs);
+  /** Git URLs may name a local repository, which must be allowed too. */
+  const allowedGitUrl = (url?: string) => {
+    const local = url && localGitPath(url);
+    if (local) allowedPath(local);
+    return url;
+  };
+
+  // ─── Prompts (show as /slash commands in Cursor) ────────────────
+
+  server.prompt(
+    "create-flutter-project",
+    "Scaffold a new Flutter project from the MT clean-architecture template",
+    {
+      name: z
+        .string()
+        .describe("Dart/Flutter project name, e.g. telecom_app_enterprise"),
+      org: z
+        .string()
+        .describe("Organisation identifier in reverse-domain, e.g. mu.mt"),
+    },
+    ({ name, org }) => ({
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Create a new Flutter project with name "${name}" and org "${org}". Use the create_flutter_project tool with dry_run=true first to preview the plan, then run it for real.`,
+          },
+        },
+      ],
+    })
+  );
+
+  server.prompt(
+    "list-flutter-projects",
+    "List all Flutter projects in a directory",
+    {
+      dir: z
+        .string()
+        .optional()
+        .describe("Directory to scan (default: current working directory)"),
+    },
+    ({ dir }) => ({
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `List all Flutter projects${dir ? ` in "${dir}"` : " in the current directory"}. Use the list_flutter_projects tool.`,
+          },
+        },
+      ],
+    })
+  );
+
+  server.prompt(
+    "project-info",
+    "Get details about an existing Flutter project",
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+    },
+    ({ path }) => ({
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Get detailed info about the Flutter project at "${path}". Use the get_project_info tool.`,
+          },
+        },
+      ],
+    })
+  );
+
+  server.prompt(
+    "generate-feature",
+    "Add a clean-architecture feature module to an existing Flutter project",
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      name: z
+        .string()
+        .describe("Feature name in snake_case, e.g. user_profile"),
+      use_cases: z
+        .string()
+        .describe(
+          "Comma-separated use cases in snake_case, e.g. get_user_profile, update_user_profile"
+        ),
+    },
+    ({ path, name, use_cases }) => ({
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Generate a feature "${name}" with the use cases ${use_cases} in the Flutter project at "${path}". Use the generate_feature tool with dry_run=true first to preview the files, then run it for real.`,
+          },
+        },
+      ],
+    })
+  );
+
+  // ── Tool: create_flutter_project ─────────────────────────────────
+  server.tool(
+    "create_flutter_project",
+    `Scaffold a new Flutter project from the custom clean-architecture template.
+
+Runs the full ${SCAFFOLD_STEPS.length}-step setup:
+${SCAFFOLD_STEPS.map((s, i) => `  ${i + 1}. ${s.title} [${s.id}]`).join("\n")}
+
+Automatically detects fvm; falls back to plain flutter/dart if fvm is not installed.
+Returns the absolute path to the ready-to-develop project.
+
+Each completed step is recorded in .mtdevkit/journal.json inside the project.
+If a run fails, call again with resume=true to skip the finished steps.
+Use only_steps / skip_steps (step ids in brackets above) to run part of the
+pipeline, e.g. only_steps=["configure-android"] on an existing project.
+Commands that exceed their step's time limit (see timeouts) are stopped, and
+cancelling the tool call kills the running command.
+
+NOTE: This tool does NOT ask for confirmation — it runs immediately.
+Use dry_run=true first if you want to preview the plan before executing.`,
+    {
+      name: z
+        .string()
+        .regex(
+          DART_PACKAGE_NAME_RE,
+          "Must be lowercase, start with a letter, contain only [a-z0-9_]"
+        )
+        .describe("Dart/Flutter project name, e.g. telecom_app_enterprise"),
+      org: z
+        .string()
+        .min(1)
+        .describe("Organisation identifier in reverse-domain, e.g. mu.mt"),
+      template: z
+        .string()
+        .url()
+        .optional()
+        .describe(`Template repo URL (default: ${DEFAULT_TEMPLATE})`),
+      dir: z
+        .string()
+        .optional()
+        .describe(
+          "Parent directory to create the project in (default: current working directory)"
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, report what would happen without executing anything"
+        ),
+      resume: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, continue a previously failed run in the existing project directory, skipping the steps its journal marks as completed"
+        ),
+      flavors: z
+        .array(flavorParam)
+        .min(1)
+        .optional()
+        .describe(
+          "Flavors to generate (default: from the template's mtdevkit.yaml, else dev / prod / uat). Drives flavorizr.yaml and the config files."
+        ),
+      ios: iosParam
+        .optional()
+        .describe(
+          "iOS settings (default: from the template's mtdevkit.yaml, else platform 13.0 and nothing else)"
+        ),
+      android_signing: releaseKeyParam
+        .optional()
+        .describe(
+          "Release key to set up in configure-android: generated with keytool, or an existing keystore. Written to the gitignored android/key.properties. Without it, release builds use the debug key until configure_android_signing adds one"
+        ),
+      on_failure: z
+        .enum(["keep", "rollback"])
+        .optional()
+        .describe(
+          'What to do if a step fails: "keep" (default) leaves the project in place for resume=true; "rollback" deletes the project directory if this run created it, otherwise undoes this run\'s steps'
+        ),
+      only_steps: z
+        .array(z.enum(STEP_IDS))
+        .optional()
+        .describe("Run only these steps (by id), in pipeline order"),
+      skip_steps: z
+        .array(z.enum(STEP_IDS))
+        .optional()
+        .describe("Skip these steps (by id)"),
+      timeouts: z
+        .record(z.enum(STEP_IDS), z.number().positive())
+        .optional()
+        .describe(
+          'Per-command time limit in seconds by step id, e.g. { "pub-get": 1800 } (default: 15 min for clone-template, pub-get and flavorizr, 10 min otherwise)'
+        ),
+      remote_url: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "Git remote added as origin in step git-init, e.g. git@bitbucket.org:team/app.git (a local bare repository path works too)"
+        ),
+      default_branch: z
+        .string()
+        .regex(GIT_BRANCH_RE, "Not a valid branch name")
+        .optional()
+        .describe(
+          "Rename the project's branch to this in step git-init, e.g. main"
+        ),
+      push: z
+        .boolean()
+        .optional()
+        .describe(
+          'If true, commit the finished project ("chore: scaffold …") and push it to remote_url in the last step'
+        ),
+    },
+    async (
+      {
+        name,
+        org,
+        template,
+        dir,
+        dry_run,
+        resume,
+        flavors,
+        ios,
+        android_signing,
+        on_failure,
+        only_steps,
+        skip_steps,
+        timeouts,
+        remote_url,
+        default_branch,
+        push,
+      },
+      extra
+    ) => {
+      const notify = notifier(server, extra, "create_flutter_project");
+      let parentDir: string;
+      try {
+        parentDir = allowedPath(dir);
+        allowedGitUrl(template);
+        allowedGitUrl(remote_url);
+        if (android_signing?.keystore) allowedPath(android_signing.keystore);
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `❌ Setup failed:\n${err.message}` }],
+        };
+      }
+      const result = await withCommandContext(notify.commandContext, () =>
+        scaffoldProject({
+          name,
+          org,
+          template,
+          dir: parentDir,
+          dryRun: dry_run,
+          resume,
+          flavors: flavors?.map(toFlavorSpec),
+          ios: ios && toIosSettings(ios),
+          androidSigning:
+            android_signing && toReleaseKeySettings(android_signing),
+          git:
+            remote_url || default_branch || push
+              ? { remoteUrl: remote_url, defaultBranch: default_branch, push }
+              : undefined,
+          onlySteps: only_steps,
+          skipSteps: skip_steps,
+          onFailure: on_failure,
+          timeoutsMs:
+            timeouts &&
+            Object.fromEntries(
+              Object.entries(timeouts).map(([id, s]) => [id, s! * 1000])
+            ),
+          signal: extra.signal,
+          onLog: (line) => notify.log(line),
+          onProgress: notify.progress,
+        })
+      );
+
+      const runLog = `\n\nRun log: mtdevkit://runs/${result.runId}`;
+      if (result.ok) {
+        return {
+          content: [{ type: "text", text: result.log.join("\n") + runLog }],
+        };
+      }
+
+      const cleanup = result.cleanup
+        ? `\n\nCleanup (on_failure=rollback):\n${result.cleanup.length ? result.cleanup.join("\n") : "Nothing to clean up"}`
+        : "";
+      const hint =
+        result.resumable && result.failedStep
+          ? `\n\nRe-run create_flutter_project with resume=true to continue from ${stepMsg(result.failedStep)}.`
+          : "";
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: `❌ Setup failed:\n${result.error}\n\nProgress so far:\n${result.log.join("\n")}${cleanup}${hint}${runLog}`,
+          },
+        ],
+      };
+    }
+  );
+
+  // ── Tool: create_flutter_projects_batch ──────────────────────────
+  server.tool(
+    "create_flutter_projects_batch",
+    `Scaffold several Flutter projects in one call, a few at a time.
+
+Pass either projects (a list of { name, org, template?, flavors?, dir? }) or
+spec, the path to a YAML/JSON file holding such a list (flavors there use the
+mtdevkit.yaml names: displayNamePrefix, applicationIdSuffix). Each project
+runs the same steps as create_flutter_project; app_starter_plus is activated
+once for the whole batch. One project failing does not stop the others.
+Returns a success/failure summary per project; failed ones can be continued
+with create_flutter_project resume=true.`,
+    {
+      projects: z
+        .array(
+          z.object({
+            name: z
+              .string()
+              .regex(
+                DART_PACKAGE_NAME_RE,
+                "Must be lowercase, start with a letter, contain only [a-z0-9_]"
+              )
+              .describe("Dart/Flutter project name"),
+            org: z.string().min(1).describe("Organisation, e.g. mu.mt"),
+            template: z.string().url().optional().describe("Template repo URL"),
+            flavors: z.array(flavorParam).min(1).optional(),
+            dir: z
+              .string()
+              .optional()
+              .describe("Parent directory for this project (default: dir)"),
+          })
+        )
+        .min(1)
+        .optional()
+        .describe("Projects to create (or use spec)"),
+      spec: z
+        .string()
+        .optional()
+        .describe(
+          "Path to a YAML/JSON spec: a list of projects, or { projects: [...] }"
+        ),
+      dir: z
+        .string()
+        .optional()
+        .describe(
+          "Parent directory for projects without their own dir (default: current working directory)"
+        ),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .max(8)
+        .optional()
+        .describe("How many projects to scaffold at once (default: 2)"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, report what would happen without executing anything"
+        ),
+      on_failure: z
+        .enum(["keep", "rollback"])
+        .optional()
+        .describe(
+          'Per project: "keep" (default) leaves a failed project for resume=true, "rollback" removes it'
+        ),
+    },
+    async (
+      { projects, spec, dir, concurrency, dry_run, on_failure },
+      extra
+    ) => {
+      const notify = notifier(server, extra, "create_flutter_projects_batch");
+      try {
+        if (!projects && !spec) {
+          throw new Error("Pass the projects to create, or a spec file.");
+        }
+        if (projects && spec) {
+          throw new Error("Pass either projects or spec, not both.");
+        }
+        const entries = spec
+          ? loadBatchSpec(allowedPath(spec))
+          : projects!.map((p) => ({
+              ...p,
+              flavors: p.flavors?.map(toFlavorSpec),
+            }));
+        for (const entry of entries) {
+          allowedPath(entry.dir ?? dir);
+          allowedGitUrl(entry.template);
+        }
+        const batch = await withCommandContext(notify.commandContext, () =>
+          scaffoldBatch({
+            projects: entries,
+            dir,
+            concurrency: concurrency ?? 2,
+            dryRun: dry_run,
+            onFailure: on_failure,
+            signal: extra.signal,
+            onLog: (line) => notify.log(line),
+            onProgress: notify.progress,
+          })
+        );
+        return {
+          content: [{ type: "text", text: formatBatchResult(batch) }],
+          structuredContent: {
+            projects: batch.projects.map(({ name, result }) => ({
+              name,
+              ok: result.ok,
+              projectDir: result.projectDir,
+              runId: result.runId,
+              ...(result.error && { error: result.error }),
+              ...(result.failedStep && { failedStep: result.failedStep.id }),
+              ...(result.resumable && { resumable: true }),
+            })),
+          },
+          ...(batch.projects.every((p) => !p.result.ok) && { isError: true }),
+        };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `❌ Batch failed:\n${err.message}` }],
+        };
+      }
+    }
+  );
+
+  // ── Tool: add_flavor ─────────────────────────────────────────────
+  server.tool(
+    "add_flavor",
+    `Add a flavor (environment) to an existing Flutter project.
+
+Adds the flavor to flavorizr.yaml, re-runs flavorizr, reverts lib/main.dart &
+lib/app.dart (which flavorizr overwrites) and creates config/app_config_<flavor>.json
+plus its committed .example.json copy.
+lib/main.dart and lib/app.dart must have no uncommitted changes.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      flavor: flavorParam.describe("The flavor to add"),
+      org: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "Organisation identifier in reverse-domain (default: inferred from the project)"
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, report what would happen without executing anything"
+        ),
+    },
+    async ({ path: projectPath, flavor, org, dry_run }, extra) => {
+      try {
+        await detectFvm();
+        const projectDir = allowedPath(projectPath);
+        const log = await withCommandContext(
+          {
+            ...notifier(server, extra, "add_flavor").commandContext,
+            project: projectDir,
+          },
+          () =>
+            addFlavor({
+              projectDir,
+              flavor: toFlavorSpec(flavor),
+              org,
+              dryRun: dry_run,
+            })
+        );
+        if (!dry_run) notifyProjectChanged(projectDir);
+        return { content: [{ type: "text", text: log.join("\n") }] };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [
+            { type: "text", text: `❌ Adding flavor failed:\n${err.message}` },
+          ],
+        };
+      }
+    }
+  );
+
+  // ── Tool: remove_flavor ──────────────────────────────────────────
+  server.tool(
+    "remove_flavor",
+    `Remove a flavor (environment) from an existing Flutter project.
+
+Removes the flavor from flavorizr.yaml, re-runs flavorizr, reverts lib/main.dart &
+lib/app.dart and deletes the flavor's config file and generated per-flavor files.
+lib/main.dart and lib/app.dart must have no uncommitted changes.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      flavor: flavorName().describe("Name of the flavor to remove"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, report what would happen without executing anything"
+        ),
+    },
+    async ({ path: projectPath, flavor, dry_run }, extra) => {
+      try {
+        await detectFvm();
+        const projectDir = allowedPath(projectPath);
+        const log = await withCommandContext(
+          {
+            ...notifier(server, extra, "remove_flavor").commandContext,
+            project: projectDir,
+          },
+          () =>
+            removeFlavor({
+              projectDir,
+              flavor,
+              dryRun: dry_run,
+            })
+        );
+        if (!dry_run) notifyProjectChanged(projectDir);
+        return { content: [{ type: "text", text: log.join("\n") }] };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Removing flavor failed:\n${err.message}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // ── Tool: generate_feature ───────────────────────────────────────
+  server.tool(
+    "generate_feature",
+    `Generate a clean-architecture feature module in an existing Flutter project.
+
+Writes <features dir>/<name>/ (default lib/features/<name>/):
+  data/        datasources, models, repository implementation
+  domain/      entity, repository interface, one file per use case
+  presentation/ cubit or bloc with its state (and events), a page
+  <name>_injection.dart registering all of it with get_it
+and calls init<Name>Feature() from the project's DI setup (the file under
+lib/ that uses GetIt, or features.di in the template's mtdevkit.yaml).
+Imports use the package name from pubspec.yaml. Fails if the feature
+already exists.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      name: z
+        .string()
+        .regex(DART_PACKAGE_NAME_RE, "Must be snake_case, e.g. user_profile")
+        .describe("Feature name in snake_case, e.g. user_profile"),
+      use_cases: z
+        .array(
+          z
+            .string()
+            .regex(DART_PACKAGE_NAME_RE, "Must be snake_case, e.g. get_user")
+        )
+        .min(1)
+        .describe('Use cases in snake_case, e.g. ["get_user_profile"]'),
+      state: z
+        .enum(["cubit", "bloc"])
+        .optional()
+        .describe(
+          "State management (default: features.state from mtdevkit.yaml, else cubit)"
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("If true, list the files and DI changes without writing"),
+    },
+    async ({ path: projectPath, name, use_cases, state, dry_run }, extra) => {
+      try {
+        const projectDir = allowedPath(projectPath);
+        const log = await withCommandContext(
+          {
+            ...notifier(server, extra, "generate_feature").commandContext,
+            project: projectDir,
+          },
+          () =>
+            generateFeature({
+              projectDir,
+              name,
+              useCases: use_cases,
+              state,
+              dryRun: dry_run,
+            })
+        );
+        if (!dry_run) notifyProjectChanged(projectDir);
+        return { content: [{ type: "text", text: log.join("\n") }] };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Generating feature failed:\n${err.message}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // ── Tool: sync_with_template ─────────────────────────────────────
+  server.tool(
+    "sync_with_template",
+    `Bring template changes into a project created by create_flutter_project.
+
+Clones the template, renders it for the project's name and org at the commit
+the project was created from (recorded in .mtdevkit/template.json) and at its
+latest commit, and merges every file the template changed into the project
+three-way. Clean changes are committed on a new branch
+(template-sync/<commit>, left checked out) together with the new template
+commit; files changed on both sides are reported as conflicts and left as
+they are. The working tree must be clean. A dry run still clones and renders
+the template to report the changes, but leaves the project alone.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      template: z
+        .string()
+        .optional()
+        .describe(
+          "Template git URL or local path (default: the one the project was created from)"
+        ),
+      base_commit: z
+        .string()
+        .regex(/^[0-9a-f]{4,40}$/i, "Must be a commit hash")
+        .optional()
+        .describe(
+          "Template commit the project was created from, for projects without .mtdevkit/template.json"
+        ),
+      org: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "Org the project was created with, for projects without .mtdevkit/template.json"
+        ),
+      branch: z
+        .string()
+        .regex(GIT_BRANCH_RE, "Not a valid branch name")
+        .optional()
+        .describe("Branch to commit on (default: template-sync/<commit>)"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, report the changes and conflicts without applying them"
+        ),
+    },
+    async (
+      { path: projectPath, template, base_commit, org, branch, dry_run },
+      extra
+    ) => {
+      try {
+        const projectDir = allowedPath(projectPath);
+        const result = await withCommandContext(
+          {
+            ...notifier(server, extra, "sync_with_template").commandContext,
+            project: projectDir,
+          },
+          () =>
+            syncWithTemplate({
+              projectDir,
+              template,
+              baseCommit: base_commit,
+              org,
+              branch,
+              dryRun: dry_run,
+              checkTemplate: allowedGitUrl,
+            })
+        );
+        if (result.branch) notifyProjectChanged(projectDir);
+        const { log, ...data } = result;
+        return {
+          content: [{ type: "text", text: log.join("\n") }],
+          structuredContent: data,
+        };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Template sync failed:\n${err.message}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // ── Tool: configure_android_signing ──────────────────────────────
+  server.tool(
+    "configure_android_signing",
+    `Set up release signing and the build types of an existing Flutter project.
+
+Generates an upload keystore with keytool (android/upload-keystore.jks) or
+checks an existing one, and writes its alias, path and password to
+android/key.properties. Both are added to android/.gitignore.
+android/app/build.gradle.kts gets a release signing config loaded from
+key.properties, and each build type its signing key and minify/shrink flags —
+from the project's mtdevkit.yaml, else debug and release with R8 and resource
+shrinking, overridden by build_types. An existing key.properties is kept.
+Needs a JDK for keytool.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      key: releaseKeyParam
+        .optional()
+        .describe(
+          "Release key to use (default: generate one with a random password)"
+        ),
+      build_types: z
+        .record(
+          z
+            .string()
+            .regex(BUILD_TYPE_NAME_RE, "Must be a lowerCamelCase identifier"),
+          buildTypeParam
+        )
+        .optional()
+        .describe(
+          'Build type settings by name, e.g. { "release": { "shrink": false } }; omitted fields keep their defaults'
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true, report what would happen without executing anything"
+        ),
+    },
+    async ({ path: projectPath, key, build_types, dry_run }, extra) => {
+      try {
+        const projectDir = allowedPath(projectPath);
+        if (key?.keystore) allowedPath(key.keystore);
+        const log = await withCommandContext(
+          {
+            ...notifier(server, extra, "configure_android_signing")
+              .commandContext,
+            project: projectDir,
+          },
+          () =>
+            configureAndroidSigning({
+              projectDir,
+              key: key ? toReleaseKeySettings(key) : {},
+              buildTypes: build_types,
+              dryRun: dry_run,
+            })
+        );
+        if (!dry_run) notifyProjectChanged(projectDir);
+        return { content: [{ type: "text", text: log.join("\n") }] };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ Configuring Android signing failed:\n${err.message}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // ── Tool: manage_app_config ──────────────────────────────────────
+  server.tool(
+    "manage_app_config",
+    `Read, update or validate config/app_config_<env>.json in a Flutter project.
+
+- get: show each environment's values and problems
+- set: set keys in one environment's file (other keys are kept)
+- validate: check every file against the expected keys (from the template's
+  mtdevkit.yaml, else secretKey / baseUrl / xAPIKey / oneSignalKey) and flag
+  missing, empty and placeholder values
+
+Secret-looking values (API keys, tokens, passwords) are always masked in the
+output, so they never end up in the conversation.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+      action: z.enum(["get", "set", "validate"]).describe("What to do"),
+      env: flavorName("Must be a flavor name such as dev")
+        .optional()
+        .describe(
+          "Environment (flavor), e.g. dev. Required for set; get/validate cover every environment when omitted."
+        ),
+      values: z
+        .record(z.string())
+        .optional()
+        .describe(
+          'Keys to set (action=set), e.g. { "baseUrl": "https://api.example.com" }'
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "If true (action=set), report what would change without writing"
+        ),
+    },
+    async ({ path: projectPath, action, env, values, dry_run }) => {
+      try {
+        const projectDir = allowedPath(projectPath);
+        if (!existsSync(projectDir)) {
+          throw new Error(`Project not found: ${projectDir}`);
+        }
+
+        const lines: string[] = [];
+        if (action === "set") {
+          if (!env) throw new Error("`env` is required for action=set.");
+          if (!values || !Object.keys(values).length) {
+            throw new Error("`values` is required for action=set.");
+          }
+          const changed = setConfigValues(projectDir, env, values, dry_run);
+          if (changed.length && !dry_run) notifyProjectChanged(projectDir);
+          lines.push(
+            changed.length
+              ? `${dry_run ? "[dry-run] Would update" : "✔ Updated"} ${changed.join(", ")} in ${configFile(env)}`
+              : `✔ ${configFile(env)} already has these values`,
+            ""
+          );
+        }
+
+        const envs = env ? [env] : listConfigEnvs(projectDir);
+        if (!envs.length) {
+          throw new Error(
+            `No ${configFile("<env>")} files found in ${projectDir}`
+          );
+        }
+        const reports = envs.map((e) => configReport(projectDir, e));
+        const valid = reports.every((r) => !r.error && !r.issues.length);
+        lines.push(formatConfigReports(reports));
+        if (action === "validate") {
+          lines.push(
+            valid
+              ? "\nAll config files are complete."
+              : "\nSome config files need attention (see → lines)."
+          );
+        }
+
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          structuredContent: { valid, configs: reports },
+        };
+      } catch (err: any) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `❌ manage_app_config failed:\n${err.message}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  // ── Tool: check_environment ──────────────────────────────────────
+  server.tool(
+    "check_environment",
+    `Check that this machine can run create_flutter_project.
+
+Reports the fvm, Flutter and Dart versions, whether a pseudo-terminal is
+available for flavorizr, whether app_starter_plus is activated, whether git
+user.name and user.email are set, and whether the template repo is reachable
+(git ls-remote). Every failed check comes with a fix.`,
+    {
+      template: z
+        .string()
+        .url()
+        .optional()
+        .describe(`Template repo URL to test (default: ${DEFAULT_TEMPLATE})`),
+    },
+    async ({ template }, extra) => {
+      const checks = await withCommandContext(
+        notifier(server, extra, "check_environment").commandContext,
+        () => checkEnvironment(template ?? DEFAULT_TEMPLATE)
+      );
+      return {
+        content: [{ type: "text", text: formatChecks(checks) }],
+      };
+    }
+  );
+
+  // ── Tool: get_audit_log ──────────────────────────────────────────
+  server.tool(
+    "get_audit_log",
+    `Query the audit log of commands this server has run.
+
+Every command (git, flutter, dart…) is recorded with its cwd, args,
+exit code, duration and truncated output, and every command a dry run only
+planned is recorded as "planned". Filter by project, tool and time range.`,
+    {
+      project: z
+        .string()
+        .optional()
+        .describe(
+          "Absolute path of a project; entries for it and directories below it"
+        ),
+      tool: z.string().optional().describe("Only entries from this tool"),
+      since: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("ISO timestamp, e.g. 2025-01-31T09:00:00Z"),
+      until: z.string().datetime({ offset: true }).optional(),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("true: planned entries only; false: executed commands only"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          "Return at most this many of the newest matches (default: 50)"
+        ),
+      include_output: z
+        .boolean()
+        .optional()
+        .describe("Include each command's (truncated) output in the text"),
+    },
+    async ({ project, tool, since, until, dry_run, limit, include_output }) => {
+      // A shared server only shows entries for projects in allowedDirs.
+      const entries = readAudit({
+        project: project && allowedPath(project),
+        tool,
+        since,
+        until,
+        dryRun: dry_run,
+      })
+        // Commands without a project are judged by where they ran; those
+        // without a cwd ran in the server's working directory.
+        .filter((e) =>
+          isAllowed(e.project ?? e.cwd ?? process.cwd(), options.allowedDirs)
+        )
+        .slice(-(limit ?? 50));
+      const lines = entries.flatMap((e) => [
+        formatAuditEntry(e),
+        ...(include_output && e.output
+          ? e.output.split("\n").map((l) => `    ${l}`)
+          : []),
+      ]);
+      return {
+        content: [
+          {
+            type: "text",
+            text: entries.length
+              ? `Audit log ${auditLogPath()} (${entries.length} entries):\n${lines.join("\n")}`
+              : `No matching entries in ${auditLogPath()}`,
+          },
+        ],
+        structuredContent: { file: auditLogPath(), entries },
+      };
+    }
+  );
+
+  // ── Tool: list_flutter_projects ──────────────────────────────────
+  server.tool(
+    "list_flutter_projects",
+    `List Flutter/Dart projects (directories with a pubspec.yaml) under a directory.
+
+Searches up to \`depth\` levels deep (e.g. depth=2 for monorepos with apps/* and
+packages/*), skipping ${DEFAULT_IGNORED_DIRS.join(", ")}. Each project is
+classified as app, package or plugin and reported with its name, version,
+flavor count and whether it came from the MT template. The same data is
+returned as structured content.`,
+    {
+      dir: z
+        .string()
+        .optional()
+        .describe("Directory to scan (default: current working directory)"),
+      depth: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe(
+          "How many directory levels below dir to search (default: 2; 1 = direct children only)"
+        ),
+      kind: z
+        .enum(["app", "package", "plugin"])
+        .optional()
+        .describe("Only list projects of this kind"),
+      ignore: z
+        .array(z.string())
+        .optional()
+        .describe(
+          `Extra directory names to skip (always skipped: ${DEFAULT_IGNORED_DIRS.join(", ")})`
+        ),
+    },
+    async ({ dir, depth, kind, ignore }) => {
+      const scanDir = allowedPath(dir);
+
+      if (!existsSync(scanDir)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Directory not found: ${scanDir}` }],
+        };
+      }
+
+      const projects = findFlutterProjects(scanDir, {
+        depth: depth ?? 2,
+        ignore,
+      }).filter((p) => !kind || p.kind === kind);
+
+      return {
+        content: [{ type: "text", text: formatProjectList(scanDir, projects) }],
+        structuredContent: { root: scanDir, projects },
+      };
+    }
+  );
+
+  // ── Tool: get_project_info ───────────────────────────────────────
+  server.tool(
+    "get_project_info",
+    `Get details about an existing Flutter project.
+
+Reports pubspec metadata, dependencies and dev_dependencies with versions,
+flavors with their applicationIds/bundleIds (from flavorizr.yaml), the keys
+still empty in each config/app_config_*.json, the Flutter SDK pinned in .fvmrc
+and the git branch, uncommitted changes and ahead/behind counts.
+The same data is returned as structured content.`,
+    {
+      path: z.string().describe("Absolute path to the Flutter project root"),
+    },
+    async ({ path: projectPath }) => {
+      const absPath = allowedPath(projectPath);
+
+      if (!existsSync(absPath)) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: `Project not found: ${absPath}` }],
+        };
+      }
+
+      const info = await withCommandContext(
+        { tool: "get_project_info", project: absPath },
+        () => readProjectInfo(absPath)
+      );
+      return {
+        content: [{ type: "text", text: formatProjectInfo(info) }],
+        structuredContent: { ...info },
+      };
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,824 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  writeFileSync,
+  readFileSync,
+  rmSync,
+} from "node:fs";
+import { join, dirname, resolve, relative, isAbsolute } from "node:path";
+import { fvmCmd, fvmArgs, usingFvm, run, runInteractive } from "./exec.js";
+import {
+  JOURNAL_FILE,
+  TEMPLATE_RECORD_FILE,
+  excludeFromGit,
+  writeTemplateRecord,
+} from "./journal.js";
+import {
+  GitSettings,
+  commitAll,
+  ensureOrigin,
+  pushToOrigin,
+  remoteHead,
+  renameBranch,
+} from "./git.js";
+import {
+  ensureConfigGitignore,
+  ensureConfigPreCommitCheck,
+  configFile,
+  exampleConfigFile,
+} from "./config.js";
+import { parseGradle, ensureProperty, ensureDependency } from "./gradle.js";
+import {
+  ANDROID_GITIGNORE,
+  GENERATED_KEYSTORE,
+  KEY_PROPERTIES_FILE,
+  ReleaseKeySettings,
+  configureBuildTypes,
+  describeBuildTypes,
+  describeReleaseKey,
+  ensureSigningGitignore,
+  setUpReleaseKey,
+} from "./android.js";
+import {
+  IosSettings,
+  XCCONFIG_BUILD_CONFIGS,
+  TextEdit,
+  setPodfilePlatform,
+  ensurePlistStrings,
+  ensureXcconfigEntries,
+  xcconfigEntriesFor,
+} from "./ios.js";
+import {
+  MANIFEST_FILE,
+  FlavorSpec,
+  TemplateManifest,
+  loadManifest,
+  configJson,
+  flavorizrYaml,
+  renderPlaceholders,
+  toDisplayName,
+  toAppId,
+} from "./template.js";
+
+// ─── Step registry ─────────────────────────────────────────────────
+// create_flutter_project runs these steps in order. Each step owns its
+// dry-run description next to its implementation so the two cannot
+// drift apart; adding a step means adding an entry to SCAFFOLD_STEPS.
+
+/** Per-run state shared by all steps. */
+export interface ScaffoldContext {
+  name: string;
+  org: string;
+  templateUrl: string;
+  parentDir: string;
+  projectDir: string;
+  /** Whether projectDir already existed before this run started. */
+  projectExisted: boolean;
+  /** Append a line to the run log. */
+  push(msg: string): void;
+  /** Original contents of files overwritten by steps (null = did not exist). */
+  backups: Map<string, string | null>;
+  /** Flavors passed by the caller; they take precedence over the manifest. */
+  flavors?: FlavorSpec[];
+  /** iOS settings passed by the caller, merged over the manifest's. */
+  ios?: Partial<IosSettings>;
+  /** Branch, origin and push settings passed by the caller. */
+  git?: GitSettings;
+  /** Release key to set up in configure-android, if any. */
+  androidSigning?: ReleaseKeySettings;
+  /** Template manifest, loaded on first use by manifestOf(). */
+  manifest?: TemplateManifest;
+}
+
+export interface ScaffoldStep {
+  /** Stable identifier used by skip_steps / only_steps and the journal. */
+  id: string;
+  title: string;
+  /** Lines reported instead of executing when dry_run is set. */
+  describe(ctx: ScaffoldContext): string[];
+  execute(ctx: ScaffoldContext): Promise<void>;
+  /** Undo whatever execute() changed, including a partial execution. */
+  rollback?(ctx: ScaffoldContext): Promise<void>;
+  /** Effect outside the project directory that no rollback can undo. */
+  sideEffect?: string;
+  /** Time limit for each command the step runs (default: DEFAULT_COMMAND_TIMEOUT_MS). */
+  timeoutMs?: number;
+}
+
+// ─── Backups ───────────────────────────────────────────────────────
+
+/** Write a file, remembering its previous contents for rollback. */
+function writeWithBackup(
+  ctx: ScaffoldContext,
+  path: string,
+  content: string
+): void {
+  if (!ctx.backups.has(path)) {
+    ctx.backups.set(
+      path,
+      existsSync(path) ? readFileSync(path, "utf-8") : null
+    );
+  }
+  writeFileSync(path, content);
+}
+
+/** Restore files saved by writeWithBackup(). */
+function restoreBackups(ctx: ScaffoldContext, paths: string[]): void {
+  for (const path of paths) {
+    if (!ctx.backups.has(path)) continue;
+    const original = ctx.backups.get(path);
+    if (original === null) rmSync(path, { force: true });
+    else writeFileSync(path, original!);
+    ctx.backups.delete(path);
+  }
+}
+
+/**
+ * The template manifest of the project being scaffolded, with the caller's
+ * flavors applied. Falls back to the defaults until the template has been
+ * cloned (e.g. during a dry run).
+ */
+function manifestOf(ctx: ScaffoldContext): TemplateManifest {
+  if (!ctx.manifest) {
+    const manifest = loadManifest(ctx.projectDir);
+    ctx.manifest = {
+      ...manifest,
+      flavors: ctx.flavors ?? manifest.flavors,
+      ios: { ...manifest.ios, ...ctx.ios },
+    };
+  }
+  return ctx.manifest;
+}
+
+const flavorNames = (ctx: ScaffoldContext) =>
+  manifestOf(ctx).flavors.map((f) => f.name);
+
+const flavorizrPath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, "flavorizr.yaml");
+const configPaths = (ctx: ScaffoldContext) =>
+  flavorNames(ctx).map((env) =>
+    join(ctx.projectDir, "config", `app_config_${env}.json`)
+  );
+const exampleConfigPaths = (ctx: ScaffoldContext) =>
+  flavorNames(ctx).map((env) => join(ctx.projectDir, exampleConfigFile(env)));
+const gitignorePath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, ".gitignore");
+const preCommitPath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, ".githooks", "pre-commit");
+/** Resolve a manifest file path, refusing paths outside the project. */
+const extraFilePath = (ctx: ScaffoldContext, path: string) => {
+  const abs = resolve(ctx.projectDir, path);
+  const rel = relative(ctx.projectDir, abs);
+  if (!rel || rel.startsWith("..") || isAbsolute(rel)) {
+    throw new Error(
+      `${MANIFEST_FILE}: file path '${path}' is outside the project`
+    );
+  }
+  return abs;
+};
+const gradlePath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, "android", "app", "build.gradle.kts");
+const proguardPath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, "android", "app", "proguard-rules.pro");
+const androidGitignorePath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, ANDROID_GITIGNORE);
+const keyPropertiesPath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, KEY_PROPERTIES_FILE);
+const generatedKeystorePath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, GENERATED_KEYSTORE);
+const podfilePath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, "ios", "Podfile");
+const infoPlistPath = (ctx: ScaffoldContext) =>
+  join(ctx.projectDir, "ios", "Runner", "Info.plist");
+/** xcconfig files that have entries to set, with those entries. */
+const xcconfigTargets = (ctx: ScaffoldContext) => {
+  const { ios } = manifestOf(ctx);
+  return flavorNames(ctx).flatMap((flavor) => {
+    const entries = Object.fromEntries(
+      Object.entries(xcconfigEntriesFor(ios, flavor)).map(([k, v]) => [
+        k,
+        renderPlaceholders(v, { flavor }),
+      ])
+    );
+    if (!Object.keys(entries).length) return [];
+    return XCCONFIG_BUILD_CONFIGS.map((config) => ({
+      file: join("ios", "Flutter", `${flavor}${config}.xcconfig`),
+      entries,
+    }));
+  });
+};
+
+/** Apply text edits to a file, saving the original for rollback. */
+function editFile(
+  ctx: ScaffoldContext,
+  path: string,
+  edit: (doc: TextEdit) => void
+): string[] {
+  const doc = { text: readFileSync(path, "utf-8"), changes: [] as string[] };
+  edit(doc);
+  if (doc.changes.length) writeWithBackup(ctx, path, doc.text);
+  return doc.changes;
+}
+
+// ─── Steps ─────────────────────────────────────────────────────────
+
+const activateStarterArgs = () =>
+  fvmArgs("dart", ["pub", "global", "activate", "app_starter_plus"]);
+
+export const activateStarterCommand = () =>
+  `${fvmCmd("dart")} ${activateStarterArgs().join(" ")}`;
+
+/** Activate (or update) app_starter_plus globally. */
+export async function activateStarter(): Promise<string> {
+  return run(fvmCmd("dart"), activateStarterArgs());
+}
+
+const starterArgs = (name: string, org: string, templateUrl: string) =>
+  fvmArgs("dart", [
+    "pub",
+    "global",
+    "run",
+    "app_starter_plus:app_starter_plus",
+    "--name",
+    name,
+    "--org",
+    org,
+    "--template",
+    templateUrl,
+    ...(usingFvm() ? ["--fvm"] : []),
+  ]);
+
+export const renderTemplateCommand = (
+  name: string,
+  org: string,
+  templateUrl: string
+) => `${fvmCmd("dart")} ${starterArgs(name, org, templateUrl).join(" ")}`;
+
+/**
+ * Clone the template into parentDir/name with app_starter_plus, which
+ * renames the package and app ids for name and org.
+ */
+export async function renderTemplate(
+  name: string,
+  org: string,
+  templateUrl: string,
+  parentDir: string
+): Promise<string> {
+  return run(fvmCmd("dart"), starterArgs(name, org, templateUrl), parentDir);
+}
+
+const flavorizrArgs = () =>
+  fvmArgs("flutter", ["pub", "run", "flutter_flavorizr"]);
+
+/** Template files that flavorizr overwrites and we restore from Git. */
+export const FLAVORIZR_OVERWRITES = ["lib/main.dart", "lib/app.dart"];
+
+/** The flavorizr command line, for dry-run output. */
+export function flavorizrCommand(): string {
+  return `${fvmCmd("flutter")} ${flavorizrArgs().join(" ")}`;
+}
+
+/**
+ * Run flavorizr in a PTY — mason_logger needs one, see runInteractive() —
+ * answering its prompts from the template manifest. Returns the transcript.
+ */
+export async function runFlavorizr(projectDir: string): Promise<string> {
+  return runInteractive(
+    fvmCmd("flutter"),
+    flavorizrArgs(),
+    projectDir,
+    loadManifest(projectDir).prompts
+  );
+}
+
+/** Append a command transcript to the run log, indented. */
+export function pushTranscript(
+  push: (msg: string) => void,
+  transcript: string
+): void {
+  if (!transcript) return;
+  push("  ┌ transcript");
+  for (const line of transcript.split("\n")) push(`  │ ${line}`);
+  push("  └");
+}
+
+/** Conventional commit message for the state after every step has run. */
+const scaffoldCommitMessage = (ctx: ScaffoldContext) =>
+  `chore: scaffold ${ctx.name} with ${flavorNames(ctx).join(", ")} flavors`;
+
+/** Restore the entrypoints flavorizr overwrote from the last commit. */
+export async function revertEntrypoints(projectDir: string): Promise<string> {
+  return run("git", ["checkout", "--", ...FLAVORIZR_OVERWRITES], projectDir);
+}
+
+export const SCAFFOLD_STEPS: ScaffoldStep[] = [
+  {
+    id: "install-starter",
+    title: "Install/update app_starter_plus",
+    sideEffect:
+      "app_starter_plus stays globally activated (dart pub global activate)",
+    describe: () => [activateStarterCommand()],
+    async execute(ctx) {
+      await activateStarter();
+      ctx.push("✔ app_starter_plus ready");
+    },
+  },
+  {
+    id: "clone-template",
+    title: "Clone template & rename project",
+    timeoutMs: 15 * 60_000,
+    describe: (ctx) => [
+      renderTemplateCommand(ctx.name, ctx.org, ctx.templateUrl),
+      `git ls-remote ${ctx.templateUrl} HEAD → ${TEMPLATE_RECORD_FILE}`,
+    ],
+    async execute(ctx) {
+      await renderTemplate(ctx.name, ctx.org, ctx.templateUrl, ctx.parentDir);
+      ctx.push(`✔ Template cloned into ${ctx.name}`);
+
+      // app_starter_plus does not say which commit it cloned; the
+      // template's HEAD a moment later is the same unless it was pushed to
+      // in between.
+      try {
+        const commit = await remoteHead(ctx.templateUrl);
+        writeTemplateRecord(ctx.projectDir, {
+          url: ctx.templateUrl,
+          commit,
+          org: ctx.org,
+        });
+        ctx.push(
+          `✔ Template commit ${commit.slice(0, 7)} recorded in ${TEMPLATE_RECORD_FILE}`
+        );
+      } catch (err: any) {
+        ctx.push(
+          `⚠ Template commit not recorded (${err.message.split("\n")[0]}) — sync_with_template will need base_commit`
+        );
+      }
+    },
+    async rollback(ctx) {
+      if (!ctx.projectExisted) {
+        rmSync(ctx.projectDir, { recursive: true, force: true });
+      }
+    },
+  },
+  {
+    id: "git-init",
+    title: "Initialise Git (+ hooks, branch & origin if set)",
+    describe: (ctx) => [
+      "git init (if .git/ does not exist)",
+      ...(ctx.git?.defaultBranch
+        ? [`git branch -M ${ctx.git.defaultBranch}`]
+        : []),
+      ...(ctx.git?.remoteUrl
+        ? [`git remote add origin ${ctx.git.remoteUrl} (or set-url)`]
+        : []),
+      "git config core.hooksPath .githooks/ (if .githooks/ exists)",
+      `Exclude ${JOURNAL_FILE} via .git/info/exclude`,
+    ],
+    async execute(ctx) {
+      if (!existsSync(join(ctx.projectDir, ".git"))) {
+        await run("git", ["init"], ctx.projectDir);
+        ctx.push("✔ Git repository initialised");
+      } else {
+        ctx.push("✔ Git repository already exists");
+      }
+      excludeFromGit(ctx.projectDir, `/${JOURNAL_FILE}`);
+
+      const { defaultBranch, remoteUrl } = ctx.git ?? {};
+      if (
+        defaultBranch &&
+        (await renameBranch(ctx.projectDir, defaultBranch))
+      ) {
+        ctx.push(`✔ Branch renamed to ${defaultBranch}`);
+      }
+      if (remoteUrl) {
+        const origin = await ensureOrigin(ctx.projectDir, remoteUrl);
+        ctx.push(
+          origin
+            ? `✔ Remote origin ${origin}: ${remoteUrl}`
+            : `✔ Remote origin already set to ${remoteUrl}`
+        );
+      }
+
+      if (existsSync(join(ctx.projectDir, ".githooks"))) {
+        await run(
+          "git",
+          ["config", "core.hooksPath", ".githooks/"],
+          ctx.projectDir
+        );
+        ctx.push("✔ Git hooks configured (.githooks/)");
+      } else {
+        ctx.push("⚠ No .githooks/ directory found — skipping hook setup");
+      }
+    },
+  },
+  {
+    id: "pub-get",
+    title: "Install Flutter dependencies",
+    timeoutMs: 15 * 60_000,
+    describe: () => [
+      `${fvmCmd("flutter")} ${fvmArgs("flutter", ["pub", "get"]).join(" ")}`,
+    ],
+    async execute(ctx) {
+      await run(
+        fvmCmd("flutter"),
+        fvmArgs("flutter", ["pub", "get"]),
+        ctx.projectDir
+      );
+      ctx.push("✔ Dependencies installed");
+    },
+  },
+  {
+    id: "gen-l10n",
+    title: "Generate localisations",
+    describe: () => [
+      `${fvmCmd("flutter")} ${fvmArgs("flutter", ["gen-l10n"]).join(" ")}`,
+    ],
+    async execute(ctx) {
+      await run(
+        fvmCmd("flutter"),
+        fvmArgs("flutter", ["gen-l10n"]),
+        ctx.projectDir
+      );
+      ctx.push("✔ Localisations generated");
+    },
+  },
+  {
+    id: "update-flavorizr",
+    title: "Update flavorizr.yaml with project name & org",
+    describe: (ctx) => [
+      `Write flavorizr.yaml (${flavorNames(ctx).join(" / ")}${ctx.flavors ? "" : `, from ${MANIFEST_FILE} if present`})`,
+    ],
+    async execute(ctx) {
+      const path = flavorizrPath(ctx);
+      if (!existsSync(path)) {
+        throw new Error(`flavorizr.yaml not found at ${path}`);
+      }
+      const manifest = manifestOf(ctx);
+      if (manifest.source)
+        ctx.push(`✔ Using template manifest ${MANIFEST_FILE}`);
+      writeWithBackup(
+        ctx,
+        path,
+        flavorizrYaml(ctx.name, ctx.org, manifest.flavors)
+      );
+      ctx.push("✔ flavorizr.yaml updated");
+    },
+    async rollback(ctx) {
+      restoreBackups(ctx, [flavorizrPath(ctx)]);
+    },
+  },
+  {
+    id: "commit-before-flavorizr",
+    title: "Commit all files before flavorizr",
+    describe: () => ["git add -A && git commit"],
+    async execute(ctx) {
+      await run("git", ["add", "-A"], ctx.projectDir);
+      await run(
+        "git",
+        ["commit", "-m", "Initial project setup before flavorizr"],
+        ctx.projectDir
+      );
+      ctx.push("✔ All files committed");
+    },
+  },
+  {
+    id: "flavorizr",
+    title: "Generate flavors (flavorizr)",
+    timeoutMs: 15 * 60_000,
+    describe: () => [
+      flavorizrCommand(),
+      "(in a pseudo-terminal, auto-answering prompts)",
+    ],
+    async execute(ctx) {
+      const transcript = await runFlavorizr(ctx.projectDir);
+      ctx.push("✔ Flavors generated");
+      pushTranscript(ctx.push, transcript);
+    },
+  },
+  {
+    id: "revert-entrypoints",
+    title: "Revert main.dart & app.dart (overwritten by flavorizr)",
+    describe: () => [`git checkout -- ${FLAVORIZR_OVERWRITES.join(" ")}`],
+    async execute(ctx) {
+      await revertEntrypoints(ctx.projectDir);
+      ctx.push("✔ main.dart & app.dart reverted");
+    },
+  },
+  {
+    id: "create-configs",
+    title: "Create config files (one per flavor)",
+    describe: (ctx) => [
+      "mkdir -p config",
+      `Write config/app_config_{${flavorNames(ctx).join(",")}}.json, unless they exist`,
+      `Write config/app_config_{${flavorNames(ctx).join(",")}}.example.json`,
+    ],
+    async execute(ctx) {
+      const { config } = manifestOf(ctx);
+      mkdirSync(join(ctx.projectDir, "config"), { recursive: true });
+      flavorNames(ctx).forEach((env, i) => {
+        const content = configJson(env, config) + "\n";
+        // A config that exists may hold real keys by now.
+        if (existsSync(configPaths(ctx)[i])) {
+          ctx.push(`⚠ ${configFile(env)} already exists — left unchanged`);
+        } else {
+          writeWithBackup(ctx, configPaths(ctx)[i], content);
+        }
+        writeWithBackup(ctx, exampleConfigPaths(ctx)[i], content);
+      });
+      ctx.push(
+        `✔ Config files created (config/app_config_{${flavorNames(ctx).join(",")}}.json + .example.json)`
+      );
+    },
+    async rollback(ctx) {
+      restoreBackups(ctx, [...configPaths(ctx), ...exampleConfigPaths(ctx)]);
+    },
+  },
+  {
+    id: "protect-configs",
+    title: "Keep config files out of Git (.gitignore, pre-commit hook)",
+    describe: () => [
+      "Add config/app_config_*.json (except *.example.json) to .gitignore",
+      "Add a config check to .githooks/pre-commit",
+      "git config core.hooksPath .githooks/",
+    ],
+    async execute(ctx) {
+      const gitignore = gitignorePath(ctx);
+      const hook = preCommitPath(ctx);
+      const read = (path: string) =>
+        existsSync(path) ? readFileSync(path, "utf-8") : "";
+
+      const changes: string[] = [];
+      for (const [path, edit] of [
+        [gitignore, ensureConfigGitignore],
+        [hook, ensureConfigPreCommitCheck],
+      ] as const) {
+        const doc = { text: read(path), changes: [] as string[] };
+        edit(doc);
+        if (!doc.changes.length) continue;
+        mkdirSync(dirname(path), { recursive: true });
+        writeWithBackup(ctx, path, doc.text);
+        changes.push(...doc.changes);
+      }
+      chmodSync(hook, 0o755);
+      await run(
+        "git",
+        ["config", "core.hooksPath", ".githooks/"],
+        ctx.projectDir
+      );
+
+      if (changes.length) {
+        ctx.push("✔ Config files protected");
+        for (const change of changes) ctx.push(`  • ${change}`);
+      } else {
+        ctx.push("✔ Config files already protected");
+      }
+    },
+    async rollback(ctx) {
+      restoreBackups(ctx, [gitignorePath(ctx), preCommitPath(ctx)]);
+    },
+  },
+  {
+    id: "configure-android",
+    title: "Configure Android build (desugaring, HMS, build types, signing)",
+    describe: (ctx) => [
+      "Patch android/app/build.gradle.kts (compileOptions, signingConfigs, buildTypes, dependencies — idempotent)",
+      ...describeBuildTypes(manifestOf(ctx).buildTypes),
+      "Create android/app/proguard-rules.pro",
+      `Ignore key.properties and keystores in ${ANDROID_GITIGNORE}`,
+      ...(ctx.androidSigning
+        ? describeReleaseKey(ctx.androidSigning)
+        : ["No release key — add one later with configure_android_signing"]),
+    ],
+    async execute(ctx) {
+      const path = gradlePath(ctx);
+      if (!existsSync(path)) {
+        throw new Error(`android/app/build.gradle.kts not found at ${path}`);
+      }
+
+      const gradle = parseGradle(readFileSync(path, "utf-8"));
+      ensureProperty(
+        gradle,
+        ["android", "compileOptions"],
+        "isCoreLibraryDesugaringEnabled",
+        "true"
+      );
+      configureBuildTypes(gradle, manifestOf(ctx).buildTypes);
+      for (const dep of manifestOf(ctx).gradleDependencies) {
+        ensureDependency(gradle, dep.configuration, dep.notation);
+      }
+
+      if (gradle.changes.length) {
+        writeWithBackup(ctx, path, gradle.text);
+        ctx.push("✔ android/app/build.gradle.kts updated");
+        for (const change of gradle.changes) ctx.push(`  • ${change}`);
+      } else {
+        ctx.push("✔ android/app/build.gradle.kts already configured");
+      }
+
+      writeWithBackup(ctx, proguardPath(ctx), manifestOf(ctx).proguardRules);
+      ctx.push("✔ android/app/proguard-rules.pro created");
+
+      const gitignore = {
+        text: existsSync(androidGitignorePath(ctx))
+          ? readFileSync(androidGitignorePath(ctx), "utf-8")
+          : "",
+        changes: [] as string[],
+      };
+      ensureSigningGitignore(gitignore);
+      if (gitignore.changes.length) {
+        writeWithBackup(ctx, androidGitignorePath(ctx), gitignore.text);
+        ctx.push(`✔ ${gitignore.changes[0]}`);
+      }
+
+      if (ctx.androidSigning) {
+        // A keystore generated by this run is deleted on rollback.
+        if (
+          !ctx.androidSigning.keystore &&
+          !existsSync(generatedKeystorePath(ctx)) &&
+          !ctx.backups.has(generatedKeystorePath(ctx))
+        ) {
+          ctx.backups.set(generatedKeystorePath(ctx), null);
+        }
+        await setUpReleaseKey(
+          ctx.projectDir,
+          ctx.androidSigning,
+          ctx.push,
+          (path, content) => writeWithBackup(ctx, path, content)
+        );
+      }
+    },
+    async rollback(ctx) {
+      restoreBackups(ctx, [
+        gradlePath(ctx),
+        proguardPath(ctx),
+        androidGitignorePath(ctx),
+        keyPropertiesPath(ctx),
+        generatedKeystorePath(ctx),
+      ]);
+    },
+  },
+  {
+    id: "configure-ios",
+    title: "Configure iOS project (Podfile, Info.plist, xcconfig)",
+    describe: (ctx) => {
+      const { ios } = manifestOf(ctx);
+      return [
+        `Set platform :ios, '${ios.platformVersion}' in ios/Podfile`,
+        Object.keys(ios.permissions).length
+          ? `Set ${Object.keys(ios.permissions).join(", ")} in ios/Runner/Info.plist`
+          : "No Info.plist permission strings configured",
+        ...xcconfigTargets(ctx).map(
+          (t) => `Set ${Object.keys(t.entries).join(", ")} in ${t.file}`
+        ),
+      ];
+    },
+    async execute(ctx) {
+      const { ios } = manifestOf(ctx);
+      const changes: string[] = [];
+
+      // Flutter only generates the Podfile on the first iOS build, so a
+      // template without one is not an error.
+      if (existsSync(podfilePath(ctx))) {
+        changes.push(
+          ...editFile(ctx, podfilePath(ctx), (doc) =>
+            setPodfilePlatform(doc, ios.platformVersion)
+          )
+        );
+      } else {
+        ctx.push("⚠ ios/Podfile not found — skipping platform version");
+      }
+
+      if (Object.keys(ios.permissions).length) {
+        if (!existsSync(infoPlistPath(ctx))) {
+          throw new Error(
+            `ios/Runner/Info.plist not found at ${infoPlistPath(ctx)}`
+          );
+        }
+        changes.push(
+          ...editFile(ctx, infoPlistPath(ctx), (doc) =>
+            ensurePlistStrings(doc, ios.permissions)
+          )
+        );
+      }
+
+      for (const { file, entries } of xcconfigTargets(ctx)) {
+        const path = join(ctx.projectDir, file);
+        if (!existsSync(path)) {
+          throw new Error(
+            `${file} not found — was flavorizr run for this flavor?`
+          );
+        }
+        changes.push(
+          ...editFile(ctx, path, (doc) =>
+            ensureXcconfigEntries(doc, file, entries)
+          )
+        );
+      }
+
+      if (changes.length) {
+        ctx.push("✔ iOS project updated");
+        for (const change of changes) ctx.push(`  • ${change}`);
+      } else {
+        ctx.push("✔ iOS project already configured");
+      }
+    },
+    async rollback(ctx) {
+      restoreBackups(ctx, [
+        podfilePath(ctx),
+        infoPlistPath(ctx),
+        ...xcconfigTargets(ctx).map((t) => join(ctx.projectDir, t.file)),
+      ]);
+    },
+  },
+  {
+    id: "write-extra-files",
+    title: `Write extra files listed in ${MANIFEST_FILE}`,
+    describe: (ctx) => {
+      const { files } = manifestOf(ctx);
+      return files.length
+        ? files.map((f) => `Write ${f.path}`)
+        : [`Write files from ${MANIFEST_FILE} (none listed)`];
+    },
+    async execute(ctx) {
+      const { files } = manifestOf(ctx);
+      const vars = {
+        name: ctx.name,
+        org: ctx.org,
+        displayName: toDisplayName(ctx.name),
+        appId: `${ctx.org}.${toAppId(ctx.name)}`,
+      };
+      for (const file of files) {
+        const path = extraFilePath(ctx, file.path);
+        mkdirSync(dirname(path), { recursive: true });
+        writeWithBackup(ctx, path, renderPlaceholders(file.content, vars));
+        ctx.push(`✔ ${file.path} written`);
+      }
+      if (!files.length) ctx.push("✔ No extra files to write");
+    },
+    async rollback(ctx) {
+      restoreBackups(
+        ctx,
+        manifestOf(ctx).files.map((f) => extraFilePath(ctx, f.path))
+      );
+    },
+  },
+  {
+    id: "commit-and-push",
+    title: "Commit & push to origin (if push is set)",
+    sideEffect: "whatever was pushed stays on the remote",
+    describe: (ctx) =>
+      ctx.git?.push
+        ? [
+            `git add -A && git commit -m "${scaffoldCommitMessage(ctx)}"`,
+            `git push -u origin HEAD (${ctx.git.remoteUrl})`,
+          ]
+        : ["Nothing (push not requested)"],
+    async execute(ctx) {
+      if (!ctx.git?.push) {
+        ctx.push("✔ Push not requested — skipping");
+        return;
+      }
+      if (await commitAll(ctx.projectDir, scaffoldCommitMessage(ctx))) {
+        ctx.push(`✔ Committed: ${scaffoldCommitMessage(ctx)}`);
+      } else {
+        ctx.push("✔ Nothing new to commit");
+      }
+      await pushToOrigin(ctx.projectDir);
+      ctx.push(`✔ Pushed to origin (${ctx.git.remoteUrl})`);
+    },
+  },
+];
+
+export const STEP_IDS = SCAFFOLD_STEPS.map((s) => s.id) as [
+  string,
+  ...string[],
+];
+
+/** Format a step progress line. */
+export function stepMsg(step: ScaffoldStep, msg = step.title): string {
+  const n = SCAFFOLD_STEPS.indexOf(step) + 1;
+  return `[${n}/${SCAFFOLD_STEPS.length}] ${msg}`;
+}
+
+/**
+ * Resolve only_steps / skip_steps into the ordered list of steps to run.
+ * Throws on unknown step ids.
+ */
+export function selectSteps(
+  onlySteps?: string[],
+  skipSteps?: string[]
+): ScaffoldStep[] {
+  for (const id of [...(onlySteps ?? []), ...(skipSteps ?? [])]) {
+    if (!STEP_IDS.includes(id)) {
+      throw new Error(
+        `Unknown step '${id}'. Valid steps: ${STEP_IDS.join(", ")}`
+      );
+    }
+  }
+  return SCAFFOLD_STEPS.filter(
+    (s) =>
+      (!onlySteps?.length || onlySteps.includes(s.id)) &&
+      !skipSteps?.includes(s.id)
+  );
+}
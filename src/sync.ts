@@ -0,0 +1,357 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, relative } from "node:path";
+import { plan, run } from "./exec.js";
+import { cloneRepository, commitAll } from "./git.js";
+import { DEFAULT_IGNORED_DIRS } from "./info.js";
+import {
+  TEMPLATE_RECORD_FILE,
+  readJournal,
+  readTemplateRecord,
+  writeTemplateRecord,
+} from "./journal.js";
+import { readPackageName } from "./project.js";
+import { DEFAULT_TEMPLATE } from "./scaffold.js";
+import { renderTemplate, renderTemplateCommand } from "./steps.js";
+
+// ─── Template sync ─────────────────────────────────────────────────
+// sync_with_template brings template changes into a scaffolded project.
+// The template is rendered for the project's name and org twice — at the
+// recorded commit (base) and at its latest commit — and every file the
+// template changed in between is merged three-way with the project's
+// copy. Clean results are committed on a new branch; files changed on
+// both sides are reported and left as they are.
+
+/** Never compared: tool output, Git data, MTDevKit's own records. */
+const SKIPPED_DIRS = [...DEFAULT_IGNORED_DIRS, ".mtdevkit"];
+
+export interface SyncOptions {
+  projectDir: string;
+  /** Template URL or local path (default: the recorded one). */
+  template?: string;
+  /** Template commit the project was generated from, if none is recorded. */
+  baseCommit?: string;
+  /** Org the project was generated with, if none is recorded. */
+  org?: string;
+  /** Branch to commit on (default: template-sync/<short commit>). */
+  branch?: string;
+  dryRun?: boolean;
+  /**
+   * Called with the template URL — passed or recorded in the project —
+   * before it is cloned; throws to refuse it.
+   */
+  checkTemplate?: (url: string) => void;
+}
+
+export type SyncChange = "updated" | "merged" | "added" | "deleted";
+
+const CHANGE_VERBS: Record<SyncChange, string> = {
+  updated: "update",
+  merged: "merge",
+  added: "add",
+  deleted: "delete",
+};
+
+export interface SyncResult {
+  log: string[];
+  baseCommit: string;
+  templateCommit: string;
+  /** Branch the changes were committed on; null for a dry run or no-op. */
+  branch: string | null;
+  changes: { path: string; change: SyncChange }[];
+  conflicts: { path: string; reason: string }[];
+}
+
+/** Files under dir, by path relative to it. */
+function readTree(dir: string): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  const visit = (current: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const path = join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.includes(entry.name)) visit(path);
+      } else if (entry.isFile()) {
+        files.set(relative(dir, path), readFileSync(path));
+      }
+    }
+  };
+  visit(dir);
+  return files;
+}
+
+const same = (a?: Buffer, b?: Buffer) =>
+  a === undefined || b === undefined ? a === b : a.equals(b);
+
+/**
+ * Merge the template's change to one file into the project's version with
+ * `git merge-file`. Returns the result, or null if the changes overlap
+ * (or the file is binary).
+ */
+async function mergeFile(
+  workDir: string,
+  path: string,
+  ours: Buffer,
+  base: Buffer,
+  theirs: Buffer
+): Promise<Buffer | null> {
+  const dir = join(workDir, "merge", path);
+  mkdirSync(dir, { recursive: true });
+  const [oursPath, basePath, theirsPath] = ["project", "base", "template"].map(
+    (name) => join(dir, name)
+  );
+  writeFileSync(oursPath, ours);
+  writeFileSync(basePath, base);
+  writeFileSync(theirsPath, theirs);
+  try {
+    // Exits with the number of conflicts, so any failure means "overlaps".
+    await run("git", ["merge-file", oursPath, basePath, theirsPath]);
+    return readFileSync(oursPath);
+  } catch {
+    return null;
+  }
+}
+
+/** Render the template at a commit of the clone in sourceDir. */
+async function renderAt(
+  workDir: string,
+  sourceDir: string,
+  commit: string,
+  name: string,
+  org: string
+): Promise<Map<string, Buffer>> {
+  // A branch rather than a detached HEAD, so app_starter_plus's clone of
+  // the local repository checks this commit out.
+  await run(
+    "git",
+    ["checkout", "--quiet", "-B", "mtdevkit-sync", commit],
+    sourceDir
+  );
+  const parentDir = join(workDir, commit);
+  mkdirSync(parentDir);
+  await renderTemplate(name, org, sourceDir, parentDir);
+  return readTree(join(parentDir, name));
+}
+
+/**
+ * Undo a sync that failed on its new branch. The project was clean before
+ * it, so everything in the working tree is the sync's.
+ */
+async function abandonBranch(projectDir: string, branch: string) {
+  await run("git", ["reset", "--quiet", "--hard"], projectDir);
+  await run("git", ["clean", "--quiet", "-fd"], projectDir);
+  await run("git", ["checkout", "--quiet", "-"], projectDir);
+  await run("git", ["branch", "-D", branch], projectDir);
+}
+
+/**
+ * Merge template changes into a project. Returns what was (or, for a dry
+ * run, would be) changed and what conflicts; throws on failure.
+ */
+export async function syncWithTemplate(opts: SyncOptions): Promise<SyncResult> {
+  const { projectDir } = opts;
+  const dryRun = opts.dryRun ?? false;
+  const log: string[] = [];
+  const push = (msg: string) => log.push(msg);
+
+  if (!existsSync(join(projectDir, ".git"))) {
+    throw new Error(`${projectDir} is not a Git repository.`);
+  }
+  const name = readPackageName(projectDir);
+  const record = readTemplateRecord(projectDir);
+  const journal = readJournal(projectDir);
+  const url =
+    opts.template ?? record?.url ?? journal?.template ?? DEFAULT_TEMPLATE;
+  opts.checkTemplate?.(url);
+  const org = opts.org ?? record?.org ?? journal?.org;
+  if (!org) {
+    throw new Error(
+      `No org recorded in ${TEMPLATE_RECORD_FILE} — pass org (the one the project was created with).`
+    );
+  }
+  const baseRef = opts.baseCommit ?? record?.commit;
+  if (!baseRef) {
+    throw new Error(
+      `No template commit recorded in ${TEMPLATE_RECORD_FILE} — pass base_commit (the template commit the project was created from).`
+    );
+  }
+  if (await run("git", ["status", "--porcelain"], projectDir)) {
+    throw new Error(
+      `${projectDir} has uncommitted changes. Commit or stash them first.`
+    );
+  }
+
+  push(`Project:  ${name} (${org})`);
+  push(`Template: ${url}`);
+  if (dryRun) {
+    push("Mode:     DRY RUN (the template is still cloned to compare)");
+  }
+
+  const workDir = mkdtempSync(join(tmpdir(), "mtdevkit-sync-"));
+  try {
+    const sourceDir = join(workDir, "template");
+    await cloneRepository(url, sourceDir);
+    const resolveCommit = (ref: string) =>
+      run("git", ["rev-parse", "--verify", `${ref}^{commit}`], sourceDir);
+    const templateCommit = await resolveCommit("HEAD");
+    const baseCommit = await resolveCommit(baseRef).catch(() => {
+      throw new Error(`Template commit ${baseRef} not found in ${url}`);
+    });
+    const short = (commit: string) => commit.slice(0, 7);
+    push(`Base:     ${short(baseCommit)} → latest ${short(templateCommit)}\n`);
+
+    const result: SyncResult = {
+      log,
+      baseCommit,
+      templateCommit,
+      branch: null,
+      changes: [],
+      conflicts: [],
+    };
+    if (baseCommit === templateCommit) {
+      push(`✔ Already up to date with the template (${short(baseCommit)})`);
+      return result;
+    }
+
+    const base = await renderAt(workDir, sourceDir, baseCommit, name, org);
+    const theirs = await renderAt(
+      workDir,
+      sourceDir,
+      templateCommit,
+      name,
+      org
+    );
+    push(
+      `✔ Template rendered at ${short(baseCommit)} and ${short(templateCommit)} (${renderTemplateCommand(name, org, "<clone>")})`
+    );
+
+    // What to write (or null to delete) for each path that changes.
+    const writes = new Map<string, Buffer | null>();
+    const paths = [...new Set([...base.keys(), ...theirs.keys()])].sort();
+    for (const path of paths) {
+      const b = base.get(path);
+      const t = theirs.get(path);
+      if (same(b, t)) continue; // Not changed by the template.
+      const projectPath = join(projectDir, path);
+      const o = existsSync(projectPath) ? readFileSync(projectPath) : undefined;
+      if (same(o, t)) continue; // The project already has the change.
+
+      if (same(o, b)) {
+        writes.set(path, t ?? null);
+        result.changes.push({
+          path,
+          change: !t ? "deleted" : !b ? "added" : "updated",
+        });
+      } else if (b && t && o) {
+        const merged = await mergeFile(workDir, path, o, b, t);
+        if (merged) {
+          writes.set(path, merged);
+          result.changes.push({ path, change: "merged" });
+        } else {
+          result.conflicts.push({
+            path,
+            reason: "changed in both the project and the template",
+          });
+        }
+      } else {
+        result.conflicts.push({
+          path,
+          reason: !b
+            ? "added by the template, but the project has its own version"
+            : !t
+              ? "deleted by the template, but changed in the project"
+              : "changed by the template, but deleted in the project",
+        });
+      }
+    }
+
+    for (const { path, change } of result.changes) {
+      push(
+        dryRun
+          ? `  [dry-run] Would ${CHANGE_VERBS[change]} ${path}`
+          : `✔ ${change[0].toUpperCase()}${change.slice(1)} ${path}`
+      );
+    }
+    for (const { path, reason } of result.conflicts) {
+      push(`⚠ Conflict: ${path} — ${reason}`);
+    }
+    if (!result.changes.length && !result.conflicts.length) {
+      push("✔ The project already has every template change");
+    }
+
+    const branch = opts.branch ?? `template-sync/${short(templateCommit)}`;
+    const message = `chore: sync with template ${short(templateCommit)}`;
+    const exists = await run(
+      "git",
+      ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`],
+      projectDir
+    ).then(
+      () => true,
+      () => false
+    );
+    if (exists) {
+      throw new Error(
+        `Branch ${branch} already exists. Delete it or pass another branch.`
+      );
+    }
+
+    push("");
+    if (dryRun) {
+      plan(push, `git checkout -b ${branch}`);
+      plan(
+        push,
+        `Record template commit ${short(templateCommit)} in ${TEMPLATE_RECORD_FILE}`
+      );
+      plan(push, `git add -A && git commit -m "${message}"`);
+      return result;
+    }
+
+    const previous = await run(
+      "git",
+      ["rev-parse", "--abbrev-ref", "HEAD"],
+      projectDir
+    );
+    await run("git", ["checkout", "-b", branch], projectDir);
+    try {
+      for (const [path, content] of writes) {
+        const target = join(projectDir, path);
+        if (content === null) {
+          rmSync(target, { force: true });
+        } else {
+          mkdirSync(dirname(target), { recursive: true });
+          writeFileSync(target, content);
+        }
+      }
+      writeTemplateRecord(projectDir, { url, commit: templateCommit, org });
+      await commitAll(projectDir, message);
+    } catch (err: any) {
+      await abandonBranch(projectDir, branch).catch((cleanupErr) => {
+        err.message += `\nCould not switch back to ${previous} and delete ${branch}: ${cleanupErr.message}`;
+      });
+      throw err;
+    }
+    result.branch = branch;
+
+    push(`✔ Committed on branch ${branch}: ${message}`);
+    push("\nNext steps:");
+    push(`  1. Review: git diff ${previous}...${branch}`);
+    if (result.conflicts.length) {
+      push(
+        `  2. Bring in the conflicting changes by hand on ${branch} — the template's versions are not applied, and after the merge the project counts as synced to ${short(templateCommit)}`
+      );
+    }
+    push(
+      `  ${result.conflicts.length ? 3 : 2}. Merge: git checkout ${previous} && git merge ${branch}`
+    );
+    return result;
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
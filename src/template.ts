@@ -0,0 +1,360 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse } from "yaml";
+import { z } from "zod";
+import { DEFAULT_PROMPT_ANSWERS, PromptAnswer } from "./exec.js";
+import { IosSettings } from "./ios.js";
+import { FeatureSettings } from "./feature.js";
+import { BuildTypeSettings } from "./android.js";
+
+// ─── Template manifest ─────────────────────────────────────────────
+// A template may ship an mtdevkit.yaml at its root describing its
+// flavors, config keys, Gradle dependencies, Android build types, ProGuard
+// rules, extra files, answers to flavorizr's prompts and the layout of
+// generated features.
+// Sections it leaves out fall back to DEFAULT_MANIFEST, which holds the
+// values this server has always generated.
+
+export const MANIFEST_FILE = "mtdevkit.yaml";
+
+export const DART_PACKAGE_NAME_RE = /^[a-z][a-z0-9_]*$/;
+export const FLAVOR_NAME_RE = /^[a-z][a-zA-Z0-9]*$/;
+export const BUILD_TYPE_NAME_RE = /^[a-z][a-zA-Z0-9]*$/;
+const GRADLE_DEPENDENCY_RE = /^([A-Za-z]+)\("([^"]+)"\)$/;
+
+/**
+ * Android source sets and build types. A flavor of the same name would
+ * share android/app/src/<name> with them and clash in Gradle.
+ */
+export const RESERVED_FLAVOR_NAMES = new Set([
+  "main",
+  "test",
+  "androidTest",
+  "testFixtures",
+  "debug",
+  "profile",
+  "release",
+]);
+
+/** A flavor name: lowerCamelCase and not one of RESERVED_FLAVOR_NAMES. */
+export const flavorName = (message = "Must be a lowerCamelCase identifier") =>
+  z
+    .string()
+    .regex(FLAVOR_NAME_RE, message)
+    .refine((name) => !RESERVED_FLAVOR_NAMES.has(name), {
+      message: `Must not be an Android source set or build type (${[...RESERVED_FLAVOR_NAMES].join(", ")})`,
+    });
+
+export const flavorSchema = z.object({
+  name: flavorName(),
+  displayNamePrefix: z.string().default(""),
+  applicationIdSuffix: z.string().default(""),
+});
+
+/** A build type's settings; omitted fields keep their current values. */
+export const buildTypeSchema = z.object({
+  minify: z.boolean().optional(),
+  shrink: z.boolean().optional(),
+  signing: z.enum(["debug", "release"]).nullable().optional(),
+});
+
+const manifestSchema = z.object({
+  flavors: z.array(flavorSchema).min(1).optional(),
+  config: z.record(z.string()).optional(),
+  android: z
+    .object({
+      dependencies: z
+        .array(
+          z
+            .string()
+            .regex(
+              GRADLE_DEPENDENCY_RE,
+              'Expected a Gradle call such as implementation("group:artifact:version")'
+            )
+        )
+        .optional(),
+      proguardRules: z.string().optional(),
+      buildTypes: z
+        .record(
+          z
+            .string()
+            .regex(BUILD_TYPE_NAME_RE, "Must be a lowerCamelCase identifier"),
+          buildTypeSchema
+        )
+        .optional(),
+    })
+    .optional(),
+  ios: z
+    .object({
+      platformVersion: z
+        .string()
+        .regex(/^\d+(\.\d+)*$/)
+        .optional(),
+      permissions: z.record(z.string()).optional(),
+      xcconfig: z.record(z.record(z.string())).optional(),
+    })
+    .optional(),
+  files: z
+    .array(z.object({ path: z.string().min(1), content: z.string() }))
+    .optional(),
+  prompts: z
+    .array(
+      z.object({
+        pattern: z
+          .string()
+          .refine(isValidRegExp, "Not a valid regular expression"),
+        answer: z.string(),
+      })
+    )
+    .optional(),
+  features: z
+    .object({
+      dir: z.string().min(1).optional(),
+      di: z.string().min(1).optional(),
+      state: z.enum(["cubit", "bloc"]).optional(),
+    })
+    .optional(),
+});
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type FlavorSpec = z.infer<typeof flavorSchema>;
+export type BuildTypeSpec = z.infer<typeof buildTypeSchema>;
+
+export interface GradleDependency {
+  configuration: string;
+  notation: string;
+}
+
+export interface TemplateFile {
+  path: string;
+  content: string;
+}
+
+export interface TemplateManifest {
+  flavors: FlavorSpec[];
+  /** Config keys and default values; `{{env}}` / `{{ENV}}` are substituted. */
+  config: Record<string, string>;
+  gradleDependencies: GradleDependency[];
+  /** Android build types by name, e.g. debug and release. */
+  buildTypes: Record<string, BuildTypeSettings>;
+  proguardRules: string;
+  ios: IosSettings;
+  files: TemplateFile[];
+  /** Answers to prompts from flavorizr; the template's come before the defaults. */
+  prompts: PromptAnswer[];
+  features: FeatureSettings;
+  /** Path of the manifest the values came from, or null for the defaults. */
+  source: string | null;
+}
+
+const DEFAULT_PROGUARD_RULES = `-ignorewarnings
+-keepattributes *Annotation*
+-keepattributes Exceptions
+-keepattributes InnerClasses
+-keepattributes Signature
+-keep class com.hianalytics.android.**{*;}
+-keep class com.huawei.updatesdk.**{*;}
+-keep class com.huawei.hms.**{*;}
+
+## Flutter wrapper
+-keep class io.flutter.app.** { *; }
+-keep class io.flutter.plugin.**  { *; }
+-keep class io.flutter.util.**  { *; }
+-keep class io.flutter.view.**  { *; }
+-keep class io.flutter.**  { *; }
+-keep class io.flutter.plugins.**  { *; }
+-dontwarn io.flutter.embedding.**
+-keep class com.huawei.hms.flutter.** { *; }
+-keep class androidx.lifecycle.DefaultLifecycleObserver
+-repackageclasses
+`;
+
+export const DEFAULT_MANIFEST: TemplateManifest = {
+  flavors: [
+    { name: "dev", displayNamePrefix: "[DEV] ", applicationIdSuffix: ".dev" },
+    { name: "prod", displayNamePrefix: "", applicationIdSuffix: "" },
+    { name: "uat", displayNamePrefix: "[UAT] ", applicationIdSuffix: ".uat" },
+  ],
+  config: {
+    secretKey: "{{ENV}}",
+    baseUrl: "",
+    xAPIKey: "",
+    oneSignalKey: "",
+  },
+  gradleDependencies: [
+    {
+      configuration: "implementation",
+      notation: "com.huawei.hms:push:6.11.0.300",
+    },
+    {
+      configuration: "implementation",
+      notation: "androidx.multidex:multidex:2.0.1",
+    },
+    {
+      configuration: "coreLibraryDesugaring",
+      notation: "com.android.tools:desugar_jdk_libs:2.1.4",
+    },
+  ],
+  buildTypes: {
+    debug: { minify: true, shrink: true, signing: "debug" },
+    release: { minify: true, shrink: true, signing: "release" },
+  },
+  proguardRules: DEFAULT_PROGUARD_RULES,
+  ios: {
+    platformVersion: "13.0",
+    permissions: {},
+    xcconfig: {},
+  },
+  files: [],
+  prompts: DEFAULT_PROMPT_ANSWERS,
+  features: { dir: "lib/features", di: null, state: "cubit" },
+  source: null,
+};
+
+/**
+ * Load mtdevkit.yaml from a cloned template, merged over the defaults.
+ * Returns DEFAULT_MANIFEST when the project has no manifest.
+ */
+export function loadManifest(projectDir: string): TemplateManifest {
+  const path = join(projectDir, MANIFEST_FILE);
+  if (!existsSync(path)) return DEFAULT_MANIFEST;
+
+  let raw: unknown;
+  try {
+    raw = parse(readFileSync(path, "utf-8")) ?? {};
+  } catch (err: any) {
+    throw new Error(`${MANIFEST_FILE} is not valid YAML: ${err.message}`);
+  }
+
+  const parsed = manifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `  • ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new Error(`Invalid ${MANIFEST_FILE}:\n${issues}`);
+  }
+
+  const m = parsed.data;
+  let buildTypes: Record<string, BuildTypeSettings>;
+  try {
+    buildTypes = mergeBuildTypes(
+      DEFAULT_MANIFEST.buildTypes,
+      m.android?.buildTypes ?? {}
+    );
+  } catch (err: any) {
+    throw new Error(`Invalid ${MANIFEST_FILE}: ${err.message}`);
+  }
+  return {
+    flavors: m.flavors ?? DEFAULT_MANIFEST.flavors,
+    config: m.config ?? DEFAULT_MANIFEST.config,
+    gradleDependencies:
+      m.android?.dependencies?.map((d) => {
+        const [, configuration, notation] = d.match(GRADLE_DEPENDENCY_RE)!;
+        return { configuration, notation };
+      }) ?? DEFAULT_MANIFEST.gradleDependencies,
+    buildTypes,
+    proguardRules: m.android?.proguardRules ?? DEFAULT_MANIFEST.proguardRules,
+    ios: { ...DEFAULT_MANIFEST.ios, ...m.ios },
+    files: m.files ?? [],
+    prompts: [...(m.prompts ?? []), ...DEFAULT_MANIFEST.prompts],
+    features: { ...DEFAULT_MANIFEST.features, ...m.features },
+    source: path,
+  };
+}
+
+/**
+ * Apply build type settings over `base`. A build type `base` lacks starts
+ * from no minification and an untouched signing config.
+ */
+export function mergeBuildTypes(
+  base: Record<string, BuildTypeSettings>,
+  overrides: Record<string, BuildTypeSpec>
+): Record<string, BuildTypeSettings> {
+  const merged = { ...base };
+  for (const [name, spec] of Object.entries(overrides)) {
+    const type: BuildTypeSettings = {
+      ...(merged[name] ?? { minify: false, shrink: false, signing: null }),
+      ...Object.fromEntries(
+        Object.entries(spec).filter(([, v]) => v !== undefined)
+      ),
+    };
+    if (type.shrink && !type.minify) {
+      throw new Error(
+        `Build type '${name}': shrink needs minify — resource shrinking only works together with code shrinking.`
+      );
+    }
+    merged[name] = type;
+  }
+  return merged;
+}
+
+// ─── Naming helpers ────────────────────────────────────────────────
+
+/** Convert a dart package name to a display name: my_super_app → My Super App */
+export function toDisplayName(pkg: string): string {
+  return pkg
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+/** Strip underscores from a dart package name for use in applicationId/bundleId */
+export function toAppId(pkg: string): string {
+  return pkg.replace(/_/g, "");
+}
+
+/** Replace `{{key}}` placeholders; unknown keys are left untouched. */
+export function renderPlaceholders(
+  text: string,
+  vars: Record<string, string>
+): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (m, key) => vars[key] ?? m);
+}
+
+// ─── Generated file contents ───────────────────────────────────────
+
+export function configJson(
+  env: string,
+  keys: Record<string, string> = DEFAULT_MANIFEST.config
+): string {
+  const vars = { env, ENV: env.toUpperCase() };
+  return JSON.stringify(
+    Object.fromEntries(
+      Object.entries(keys).map(([k, v]) => [k, renderPlaceholders(v, vars)])
+    ),
+    null,
+    2
+  );
+}
+
+export function flavorizrYaml(
+  name: string,
+  org: string,
+  flavors: FlavorSpec[] = DEFAULT_MANIFEST.flavors
+): string {
+  const displayName = toDisplayName(name);
+  const appId = `${org}.${toAppId(name)}`;
+  return (
+    "flavors:\n" +
+    flavors
+      .map(
+        (f) => `  ${f.name}:
+    app:
+      name: "${f.displayNamePrefix}${displayName}"
+    android:
+      applicationId: "${appId}${f.applicationIdSuffix}"
+    ios:
+      bundleId: "${appId}${f.applicationIdSuffix}"
+`
+      )
+      .join("")
+  );
+}
@@ -0,0 +1,163 @@
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { configureAndroidSigning } from "../src/android.js";
+import { scaffoldProject } from "../src/scaffold.js";
+import { Sandbox, createSandbox, git, removeSandbox } from "./sandbox.js";
+
+// configure_android_signing on a project scaffolded from the fixture
+// template, with keytool stubbed.
+
+let sandbox: Sandbox;
+let projectDir: string;
+
+const read = (path: string) => readFileSync(join(projectDir, path), "utf-8");
+const keyProperties = () =>
+  Object.fromEntries(
+    read("android/key.properties")
+      .trim()
+      .split("\n")
+      .map((line) => line.split("=", 2))
+  );
+
+beforeAll(async () => {
+  sandbox = createSandbox();
+  const result = await scaffoldProject({
+    name: "demo_app",
+    org: "com.acme",
+    dir: sandbox.dir,
+    template: sandbox.template,
+  });
+  expect(result.error).toBeUndefined();
+  projectDir = result.projectDir;
+  git(projectDir, "add", "-A");
+  git(projectDir, "commit", "--quiet", "-m", "Scaffold");
+  sandbox.calls.length = 0;
+}, 60_000);
+
+afterAll(() => removeSandbox(sandbox));
+
+describe("configure_android_signing", () => {
+  it("reports the key and Gradle changes in a dry run", async () => {
+    const gradle = read("android/app/build.gradle.kts");
+    const log = await configureAndroidSigning({
+      projectDir,
+      key: {},
+      buildTypes: { release: { shrink: false } },
+      dryRun: true,
+    });
+
+    expect(sandbox.calls).toEqual([]);
+    expect(log).toContain(
+      "  [dry-run] keytool -genkeypair -keystore android/upload-keystore.jks -alias upload (random password)"
+    );
+    expect(log).toContain(
+      "  [dry-run] android.buildTypes.release: isShrinkResources changed from true to false"
+    );
+    expect(read("android/app/build.gradle.kts")).toBe(gradle);
+    expect(existsSync(join(projectDir, "android/key.properties"))).toBe(false);
+  });
+
+  it("generates a keystore and writes key.properties", async () => {
+    await configureAndroidSigning({ projectDir, key: {} });
+
+    const [keytool] = sandbox.calls;
+    expect(keytool.command).toBe("keytool");
+    expect(keytool.args).toContain("-genkeypair");
+    const props = keyProperties();
+    expect(props).toMatchObject({
+      keyAlias: "upload",
+      storeFile: "../upload-keystore.jks",
+    });
+    expect(props.storePassword).toHaveLength(24);
+    expect(props.keyPassword).toBe(props.storePassword);
+    expect(keytool.args.join(" ")).not.toContain(props.storePassword);
+    expect(JSON.parse(read("android/upload-keystore.jks"))).toMatchObject({
+      alias: "upload",
+      dname: "CN=Demo App",
+      validity: 10000,
+    });
+  });
+
+  it("keeps the keystore and key.properties out of Git", () => {
+    expect(
+      git(projectDir, "status", "--porcelain", "--untracked-files=all")
+    ).toBe("");
+  });
+
+  it("keeps an existing key.properties", async () => {
+    const before = read("android/key.properties");
+    sandbox.calls.length = 0;
+    const log = await configureAndroidSigning({
+      projectDir,
+      key: { keystore: "/elsewhere/release.jks", password: "secret" },
+    });
+
+    expect(sandbox.calls).toEqual([]);
+    expect(log).toContain(
+      "✔ android/key.properties already exists — keeping it (delete it to set up another key)"
+    );
+    expect(log).toContain("✔ android/app/build.gradle.kts already configured");
+    expect(read("android/key.properties")).toBe(before);
+  });
+
+  it("reuses an existing keystore after checking its password", async () => {
+    const { storePassword } = keyProperties();
+    rmSync(join(projectDir, "android/key.properties"));
+    const keystore = join(projectDir, "android/upload-keystore.jks");
+
+    await expect(
+      configureAndroidSigning({
+        projectDir,
+        key: { keystore, password: "wrong-password" },
+      })
+    ).rejects.toThrow("Could not read key 'upload'");
+    expect(existsSync(join(projectDir, "android/key.properties"))).toBe(false);
+
+    await configureAndroidSigning({
+      projectDir,
+      key: { keystore, password: storePassword },
+    });
+    expect(keyProperties()).toEqual({
+      storePassword,
+      keyPassword: storePassword,
+      keyAlias: "upload",
+      storeFile: "../upload-keystore.jks",
+    });
+  });
+
+  it("applies build type overrides", async () => {
+    const log = await configureAndroidSigning({
+      projectDir,
+      key: {},
+      buildTypes: {
+        release: { shrink: false },
+        staging: { minify: true, signing: "release" },
+      },
+    });
+
+    expect(log).toContain(
+      "  Build type release: minify, release key from android/key.properties (debug key until it exists)"
+    );
+    const gradle = read("android/app/build.gradle.kts");
+    expect(gradle).toContain("isShrinkResources = false");
+    expect(gradle).toContain('create("staging") {');
+  });
+
+  it("refuses shrink without minify", async () => {
+    await expect(
+      configureAndroidSigning({
+        projectDir,
+        key: {},
+        buildTypes: { debug: { minify: false } },
+      })
+    ).rejects.toThrow("Build type 'debug': shrink needs minify");
+  });
+
+  it("refuses to overwrite a stray generated keystore", async () => {
+    rmSync(join(projectDir, "android/key.properties"));
+    await expect(
+      configureAndroidSigning({ projectDir, key: {} })
+    ).rejects.toThrow("android/upload-keystore.jks already exists");
+  });
+});
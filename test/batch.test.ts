@@ -0,0 +1,58 @@
+import { existsSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { BatchResult, formatBatchResult, scaffoldBatch } from "../src/batch.js";
+import { Sandbox, createSandbox, removeSandbox } from "./sandbox.js";
+
+// create_flutter_projects_batch against the fixture template, with one
+// project that cannot be created because its directory is taken.
+
+let sandbox: Sandbox;
+let batch: BatchResult;
+
+beforeAll(async () => {
+  sandbox = createSandbox();
+  mkdirSync(join(sandbox.dir, "taken_app"));
+  batch = await scaffoldBatch({
+    projects: ["first_app", "taken_app", "third_app"].map((name) => ({
+      name,
+      org: "com.acme",
+      template: sandbox.template,
+    })),
+    dir: sandbox.dir,
+    concurrency: 2,
+  });
+}, 60_000);
+
+afterAll(() => removeSandbox(sandbox));
+
+describe("create_flutter_projects_batch", () => {
+  it("creates the other projects when one fails", () => {
+    expect(batch.projects.map(({ name, result }) => [name, result.ok])).toEqual(
+      [
+        ["first_app", true],
+        ["taken_app", false],
+        ["third_app", true],
+      ]
+    );
+    expect(batch.projects[1].result.error).toContain("already exists");
+    for (const name of ["first_app", "third_app"]) {
+      expect(existsSync(join(sandbox.dir, name, "flavorizr.yaml"))).toBe(true);
+    }
+  });
+
+  it("activates app_starter_plus once for the batch", () => {
+    const activations = sandbox.calls.filter(
+      (c) => c.args.join(" ") === "pub global activate app_starter_plus"
+    );
+    expect(activations).toHaveLength(1);
+  });
+
+  it("reports each project", () => {
+    const report = formatBatchResult(batch);
+
+    expect(report).toContain(`✔ first_app → ${join(sandbox.dir, "first_app")}`);
+    expect(report).toContain("✖ taken_app → ");
+    expect(report).toContain("2/3 project(s) succeeded.");
+  });
+});
@@ -0,0 +1,40 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { run } from "../src/exec.js";
+
+// The real command runner, without stubs.
+
+let dir: string;
+const auditLines = () =>
+  readFileSync(join(dir, "audit.jsonl"), "utf-8").trim().split("\n");
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "mtdevkit-test-"));
+  vi.stubEnv("MTDEVKIT_AUDIT_LOG", join(dir, "audit.jsonl"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("run", () => {
+  it("audits a command that cannot start once", async () => {
+    await expect(
+      run("mtdevkit-no-such-command", ["--version"])
+    ).rejects.toThrow("Command failed: mtdevkit-no-such-command --version");
+    // The close event that follows the spawn error arrives later.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(existsSync(join(dir, "audit.jsonl"))).toBe(true);
+    const lines = auditLines();
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      command: "mtdevkit-no-such-command",
+      error: expect.stringContaining("ENOENT"),
+    });
+    expect(JSON.parse(lines[0])).not.toHaveProperty("exitCode");
+  });
+});
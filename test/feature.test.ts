@@ -0,0 +1,164 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { generateFeature, registerFeature } from "../src/feature.js";
+import { TextEdit } from "../src/ios.js";
+import { Sandbox, createSandbox, listFiles, removeSandbox } from "./sandbox.js";
+
+// generate_feature on a minimal project with a get_it setup, and
+// registerFeature on DI files of other shapes.
+
+let sandbox: Sandbox;
+let projectDir: string;
+
+const DI_FILE = "lib/core/di/injection.dart";
+const DI_SETUP = `import 'package:get_it/get_it.dart';
+
+final sl = GetIt.instance;
+
+Future<void> initDependencies() async {
+  sl.registerLazySingleton(() => Object());
+}
+`;
+
+const read = (path: string) => readFileSync(join(projectDir, path), "utf-8");
+
+beforeAll(() => {
+  sandbox = createSandbox();
+  projectDir = join(sandbox.dir, "demo_app");
+  mkdirSync(join(projectDir, "lib/core/di"), { recursive: true });
+  writeFileSync(
+    join(projectDir, "pubspec.yaml"),
+    "name: demo_app\ndependencies:\n  get_it: ^8.0.3\n  flutter_bloc: ^9.1.0\n"
+  );
+  writeFileSync(join(projectDir, DI_FILE), DI_SETUP);
+});
+
+afterAll(() => removeSandbox(sandbox));
+
+describe("generate_feature", () => {
+  it("writes nothing in a dry run", async () => {
+    const log = await generateFeature({
+      projectDir,
+      name: "user_profile",
+      useCases: ["get_user_profile"],
+      dryRun: true,
+    });
+
+    expect(log).toContain(
+      `  [dry-run] ${DI_FILE}: added initUserProfileFeature(sl);`
+    );
+    expect(existsSync(join(projectDir, "lib/features"))).toBe(false);
+    expect(read(DI_FILE)).toBe(DI_SETUP);
+  });
+
+  it("writes the feature's layers and registers it", async () => {
+    await generateFeature({
+      projectDir,
+      name: "user_profile",
+      useCases: ["get_user_profile", "update_user_profile"],
+    });
+
+    expect(
+      listFiles(projectDir).filter((path) => path.startsWith("lib/features/"))
+    ).toEqual([
+      "lib/features/user_profile/data/datasources/user_profile_remote_data_source.dart",
+      "lib/features/user_profile/data/models/user_profile_model.dart",
+      "lib/features/user_profile/data/repositories/user_profile_repository_impl.dart",
+      "lib/features/user_profile/domain/entities/user_profile.dart",
+      "lib/features/user_profile/domain/repositories/user_profile_repository.dart",
+      "lib/features/user_profile/domain/usecases/get_user_profile.dart",
+      "lib/features/user_profile/domain/usecases/update_user_profile.dart",
+      "lib/features/user_profile/presentation/cubit/user_profile_cubit.dart",
+      "lib/features/user_profile/presentation/cubit/user_profile_state.dart",
+      "lib/features/user_profile/presentation/pages/user_profile_page.dart",
+      "lib/features/user_profile/user_profile_injection.dart",
+    ]);
+    expect(read(DI_FILE)).toBe(`import 'package:get_it/get_it.dart';
+import 'package:demo_app/features/user_profile/user_profile_injection.dart';
+
+final sl = GetIt.instance;
+
+Future<void> initDependencies() async {
+  sl.registerLazySingleton(() => Object());
+  initUserProfileFeature(sl);
+}
+`);
+  });
+
+  it("refuses a feature that already exists", async () => {
+    await expect(
+      generateFeature({ projectDir, name: "user_profile", useCases: [] })
+    ).rejects.toThrow("Feature 'user_profile' already exists");
+  });
+});
+
+describe("registerFeature", () => {
+  const register = (text: string) => {
+    const doc: TextEdit = { text, changes: [] };
+    registerFeature(
+      doc,
+      "package:demo_app/features/cart/cart_injection.dart",
+      "initCartFeature"
+    );
+    return doc;
+  };
+
+  it("adds the call before the marker line", () => {
+    const { text } = register(`final sl = GetIt.instance;
+
+void initDependencies() {
+  // mtdevkit:features
+  sl.registerLazySingleton(() => Object());
+}
+`);
+
+    expect(text).toContain("  initCartFeature(sl);\n  // mtdevkit:features\n");
+  });
+
+  it("adds the call to the setup function, not a class after it", () => {
+    const { text } = register(`import 'package:get_it/get_it.dart';
+
+final sl = GetIt.instance;
+
+Future<void> initDependencies() async {
+  sl.registerLazySingleton(() => Api());
+}
+
+class Api {
+  const Api();
+}
+`);
+
+    expect(text).toContain(`Future<void> initDependencies() async {
+  sl.registerLazySingleton(() => Api());
+  initCartFeature(sl);
+}
+
+class Api {
+  const Api();
+}
+`);
+  });
+
+  it("changes nothing the second time", () => {
+    const once = register(DI_SETUP).text;
+    const twice = register(once);
+
+    expect(twice.text).toBe(once);
+    expect(twice.changes).toEqual([]);
+  });
+
+  it("refuses a file without a function that uses the locator", () => {
+    expect(() =>
+      register(`import 'package:get_it/get_it.dart';
+
+class Injector {
+  void init() {
+    GetIt.instance.registerLazySingleton(() => Object());
+  }
+}
+`)
+    ).toThrow("no top-level function uses GetIt.instance");
+  });
+});
@@ -0,0 +1,56 @@
+// Stand-in for `dart`, run by the test suite's command runner. Handles the
+// two app_starter_plus commands the scaffold uses; anything else fails.
+import {
+  cpSync,
+  readFileSync,
+  readdirSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const args = process.argv.slice(2);
+const option = (name) => args[args.indexOf(name) + 1];
+
+/** Replace the template's package name and org in every file under dir. */
+function rename(dir, name, org) {
+  for (const entry of readdirSync(dir)) {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) {
+      rename(path, name, org);
+      continue;
+    }
+    const text = readFileSync(path, "utf-8");
+    const renamed = text
+      .replaceAll("com.example.mt_template", `${org}.${name}`)
+      .replaceAll("mt_template", name);
+    if (renamed !== text) writeFileSync(path, renamed);
+  }
+}
+
+if (args.join(" ") === "pub global activate app_starter_plus") {
+  console.log("Activated app_starter_plus 0.0.0-stub.");
+} else if (
+  args.slice(0, 4).join(" ") ===
+  "pub global run app_starter_plus:app_starter_plus"
+) {
+  // The real tool clones --template; the stub copies a local repository's
+  // working tree, given as a path or a file:// URL.
+  const name = option("--name");
+  const target = join(process.cwd(), name);
+  const template = option("--template");
+  cpSync(
+    template.startsWith("file:") ? fileURLToPath(template) : template,
+    target,
+    {
+      recursive: true,
+      filter: (src) => basename(src) !== ".git",
+    }
+  );
+  rename(target, name, option("--org"));
+  console.log(`Created ${name}`);
+} else {
+  console.error(`dart stub: unsupported command: dart ${args.join(" ")}`);
+  process.exit(64);
+}
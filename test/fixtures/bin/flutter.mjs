@@ -0,0 +1,72 @@
+// Stand-in for `flutter`, run by the test suite's command runner. pub get
+// and gen-l10n write a marker file; flutter_flavorizr asks to proceed when
+// it has a terminal, like the real one, then writes per-flavor files and
+// overwrites the entrypoints.
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { dirname } from "node:path";
+import YAML from "yaml";
+
+const command = process.argv.slice(2).join(" ");
+
+const write = (path, content) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+};
+
+async function confirm(question) {
+  if (!process.stdin.isTTY) return true;
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise((resolve) => rl.question(question, resolve));
+  rl.close();
+  return /^y/i.test(answer.trim());
+}
+
+async function flavorizr() {
+  const { flavors } = YAML.parse(readFileSync("flavorizr.yaml", "utf-8"));
+  if (!(await confirm("Do you want to proceed? (Y/n) "))) {
+    console.error("Aborted.");
+    process.exit(1);
+  }
+  const names = Object.keys(flavors);
+  write("lib/flavors.dart", `enum Flavor { ${names.join(", ")} }\n`);
+  write("lib/main.dart", "// Overwritten by flavorizr\n");
+  write("lib/app.dart", "// Overwritten by flavorizr\n");
+  for (const name of names) {
+    write(`lib/main_${name}.dart`, `// ${flavors[name].app.name}\n`);
+    for (const config of ["Debug", "Release"]) {
+      write(
+        `ios/Flutter/${name}${config}.xcconfig`,
+        '#include "Generated.xcconfig"\n'
+      );
+    }
+  }
+  write(
+    "android/app/flavorizr.gradle.kts",
+    names
+      .map((name) => `// ${name}: ${flavors[name].android.applicationId}\n`)
+      .join("")
+  );
+  console.log(`Flavorizr: generated ${names.join(", ")}`);
+}
+
+// A test makes a command fail by setting FLUTTER_STUB_FAIL to it.
+if (command === process.env.FLUTTER_STUB_FAIL) {
+  console.error(`flutter stub: failing flutter ${command} as asked`);
+  process.exit(1);
+}
+
+if (command === "pub get") {
+  write(".dart_tool/package_config.json", "{}\n");
+  console.log("Got dependencies!");
+} else if (command === "gen-l10n") {
+  write(
+    "lib/l10n/app_localizations.dart",
+    "// Generated by the flutter stub\n"
+  );
+} else if (command === "pub run flutter_flavorizr") {
+  await flavorizr();
+} else {
+  console.error(`flutter stub: unsupported command: flutter ${command}`);
+  process.exit(64);
+}
@@ -0,0 +1,50 @@
+// Stand-in for `keytool`, run by the test suite's command runner. Handles
+// the -genkeypair and -list commands release signing uses; the "keystore"
+// is a JSON file. Passwords must come from the environment (-storepass:env),
+// never from the command line.
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+const args = process.argv.slice(2);
+const option = (name) =>
+  args.includes(name) ? args[args.indexOf(name) + 1] : undefined;
+
+const password = process.env[option("-storepass:env") ?? ""];
+if (option("-storepass") || option("-keypass")) {
+  console.error("keytool stub: password passed on the command line");
+  process.exit(64);
+}
+if (!password || password.length < 6) {
+  console.error("keytool error: Password must be at least 6 characters");
+  process.exit(1);
+}
+
+const keystore = option("-keystore");
+if (args[0] === "-genkeypair") {
+  if (existsSync(keystore)) {
+    console.error(`keytool error: ${keystore} already exists`);
+    process.exit(1);
+  }
+  const key = {
+    alias: option("-alias"),
+    dname: option("-dname"),
+    validity: Number(option("-validity")),
+    password,
+  };
+  writeFileSync(keystore, JSON.stringify(key));
+} else if (args[0] === "-list") {
+  const key = existsSync(keystore)
+    ? JSON.parse(readFileSync(keystore, "utf-8"))
+    : null;
+  if (!key || key.password !== password) {
+    console.error("keytool error: keystore password was incorrect");
+    process.exit(1);
+  }
+  if (key.alias !== option("-alias")) {
+    console.error(`keytool error: Alias <${option("-alias")}> does not exist`);
+    process.exit(1);
+  }
+  console.log(`${key.alias}, PrivateKeyEntry,`);
+} else {
+  console.error(`keytool stub: unsupported command: keytool ${args.join(" ")}`);
+  process.exit(64);
+}
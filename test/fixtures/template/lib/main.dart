@@ -0,0 +1,6 @@
+import 'package:flutter/material.dart';
+import 'package:mt_template/app.dart';
+
+void main() {
+  runApp(const App());
+}
@@ -0,0 +1,102 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { addFlavor, removeFlavor } from "../src/flavors.js";
+import { scaffoldProject } from "../src/scaffold.js";
+import { flavorSchema } from "../src/template.js";
+import { Sandbox, createSandbox, git, removeSandbox } from "./sandbox.js";
+
+// add_flavor / remove_flavor on a project scaffolded from the fixture
+// template, with flavorizr stubbed.
+
+let sandbox: Sandbox;
+let projectDir: string;
+
+const read = (path: string) => readFileSync(join(projectDir, path), "utf-8");
+const STAGING = {
+  name: "staging",
+  displayNamePrefix: "[STG] ",
+  applicationIdSuffix: ".stg",
+};
+
+beforeAll(async () => {
+  sandbox = createSandbox();
+  const result = await scaffoldProject({
+    name: "demo_app",
+    org: "com.acme",
+    dir: sandbox.dir,
+    template: sandbox.template,
+  });
+  expect(result.error).toBeUndefined();
+  projectDir = result.projectDir;
+  git(projectDir, "add", "-A");
+  git(projectDir, "commit", "--quiet", "-m", "Scaffold");
+}, 60_000);
+
+afterAll(() => removeSandbox(sandbox));
+
+describe("add_flavor", () => {
+  it("rejects Android source set and build type names", () => {
+    for (const name of ["main", "androidTest", "debug", "release"]) {
+      expect(flavorSchema.safeParse({ name }).success).toBe(false);
+    }
+    expect(flavorSchema.safeParse({ name: "staging" }).success).toBe(true);
+  });
+
+  it("restores flavorizr.yaml when flavorizr fails", async () => {
+    const flavorizr = read("flavorizr.yaml");
+    vi.stubEnv("FLUTTER_STUB_FAIL", "pub run flutter_flavorizr");
+    try {
+      await expect(addFlavor({ projectDir, flavor: STAGING })).rejects.toThrow(
+        "flavorizr.yaml was restored."
+      );
+    } finally {
+      vi.stubEnv("FLUTTER_STUB_FAIL", "");
+    }
+
+    expect(read("flavorizr.yaml")).toBe(flavorizr);
+    expect(existsSync(join(projectDir, "config/app_config_staging.json"))).toBe(
+      false
+    );
+  }, 60_000);
+
+  it("adds the flavor when tried again", async () => {
+    await addFlavor({ projectDir, flavor: STAGING });
+
+    expect(read("flavorizr.yaml")).toContain("com.acme.demoapp.stg");
+    expect(read("lib/main_staging.dart")).toBe("// [STG] Demo App\n");
+    expect(existsSync(join(projectDir, "config/app_config_staging.json"))).toBe(
+      true
+    );
+  }, 60_000);
+});
+
+describe("remove_flavor", () => {
+  it("refuses to delete a source set's directory", async () => {
+    const flavorizr = read("flavorizr.yaml");
+    writeFileSync(
+      join(projectDir, "flavorizr.yaml"),
+      flavorizr.replace(
+        "flavors:\n",
+        "flavors:\n  main:\n    app:\n      name: Main\n"
+      )
+    );
+    mkdirSync(join(projectDir, "android/app/src/main"), { recursive: true });
+
+    await expect(removeFlavor({ projectDir, flavor: "main" })).rejects.toThrow(
+      "refusing to delete android/app/src/main"
+    );
+    expect(existsSync(join(projectDir, "android/app/src/main"))).toBe(true);
+    writeFileSync(join(projectDir, "flavorizr.yaml"), flavorizr);
+  });
+
+  it("removes the flavor's files", async () => {
+    await removeFlavor({ projectDir, flavor: "staging" });
+
+    expect(read("flavorizr.yaml")).not.toContain("staging");
+    expect(existsSync(join(projectDir, "lib/main_staging.dart"))).toBe(false);
+    expect(existsSync(join(projectDir, "config/app_config_staging.json"))).toBe(
+      false
+    );
+  }, 60_000);
+});
@@ -0,0 +1,127 @@
+import { mkdirSync, symlinkSync, writeFileSync } from "node:fs";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { parseAllowedDirs } from "../src/access.js";
+import { MCP_PATH, startHttpServer } from "../src/http.js";
+import { createServer } from "../src/server.js";
+import { Sandbox, createSandbox, removeSandbox } from "./sandbox.js";
+
+// The Streamable HTTP transport on a free local port, with the sandbox's
+// `allowed` directory as the only --allow-dir.
+
+const TOKEN = "test-token";
+
+let sandbox: Sandbox;
+let http: Server;
+let url: URL;
+let allowed: string;
+let outside: string;
+
+function writeProject(dir: string, name: string) {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, "pubspec.yaml"), `name: ${name}\n`);
+}
+
+beforeAll(async () => {
+  sandbox = createSandbox();
+  allowed = join(sandbox.dir, "allowed");
+  outside = join(sandbox.dir, "outside");
+  writeProject(join(allowed, "inside_app"), "inside_app");
+  writeProject(join(outside, "outside_app"), "outside_app");
+  symlinkSync(join(outside, "outside_app"), join(allowed, "linked_app"));
+
+  const allowedDirs = parseAllowedDirs([allowed]);
+  http = await startHttpServer({
+    port: 0,
+    host: "127.0.0.1",
+    token: TOKEN,
+    createServer: () => createServer({ allowedDirs }),
+  });
+  const { port } = http.address() as AddressInfo;
+  url = new URL(`http://127.0.0.1:${port}${MCP_PATH}`);
+});
+
+afterAll(async () => {
+  http.closeAllConnections();
+  await new Promise((resolve) => http.close(resolve));
+  removeSandbox(sandbox);
+});
+
+async function connect(token: string) {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    })
+  );
+  return client;
+}
+
+describe("HTTP transport", () => {
+  it("rejects a request without the bearer token", async () => {
+    const res = await fetch(url, { method: "POST", body: "{}" });
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toBe('Bearer realm="MTDevKit"');
+  });
+
+  it("rejects a client with the wrong token", async () => {
+    await expect(connect("wrong-token")).rejects.toThrow();
+  });
+
+  it("serves a client with the token", async () => {
+    const client = await connect(TOKEN);
+    const { tools } = await client.listTools();
+
+    expect(tools.map((t) => t.name)).toContain("get_project_info");
+    await client.close();
+  });
+});
+
+describe("--allow-dir", () => {
+  let client: Client;
+  const projectInfo = (path: string) =>
+    client.callTool({ name: "get_project_info", arguments: { path } });
+  const text = (result: Awaited<ReturnType<typeof projectInfo>>) =>
+    (result.content as { text: string }[]).map((c) => c.text).join("\n");
+
+  beforeAll(async () => {
+    client = await connect(TOKEN);
+  });
+
+  afterAll(() => client.close());
+
+  it("allows a project inside the allowed directory", async () => {
+    const result = await projectInfo(join(allowed, "inside_app"));
+
+    expect(result.isError).toBeFalsy();
+    expect(text(result)).toContain("inside_app");
+  });
+
+  it("refuses a path outside the allowed directory", async () => {
+    const result = await projectInfo(join(outside, "outside_app"));
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("is outside the directories");
+  });
+
+  it("refuses a path that leaves it through ..", async () => {
+    const result = await projectInfo(
+      join(allowed, "..", "outside", "outside_app")
+    );
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("is outside the directories");
+  });
+
+  it("refuses a path that leaves it through a symlink", async () => {
+    const result = await projectInfo(join(allowed, "linked_app"));
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("is outside the directories");
+  });
+});
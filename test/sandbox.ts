@@ -0,0 +1,73 @@
+import { execFileSync } from "node:child_process";
+import {
+  cpSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+import { vi } from "vitest";
+import { setCommandRunner } from "../src/exec.js";
+import { RecordedCommand, stubRunner } from "./stubRunner.js";
+
+// ─── Test sandbox ──────────────────────────────────────────────────
+// A temporary directory for everything a test file touches: a Git config
+// with an identity, the audit log, saved runs and a Git repository of the
+// fixture template. Commands go through the stub runner meanwhile.
+
+export const FIXTURE_TEMPLATE = fileURLToPath(
+  new URL("./fixtures/template", import.meta.url)
+);
+
+export interface Sandbox {
+  dir: string;
+  /** Git repository with the fixture template as its first commit. */
+  template: string;
+  /** Every command run since the sandbox was created. */
+  calls: RecordedCommand[];
+}
+
+/** Run git and return its trimmed output. */
+export const git = (cwd: string, ...args: string[]) =>
+  execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+
+/** All files under dir except .git/, relative and sorted. */
+export function listFiles(dir: string): string[] {
+  return readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter((e) => e.isFile())
+    .map((e) => relative(dir, join(e.parentPath, e.name)))
+    .filter((path) => !path.startsWith(".git/"))
+    .sort();
+}
+
+export function createSandbox(): Sandbox {
+  const dir = mkdtempSync(join(tmpdir(), "mtdevkit-test-"));
+  const gitconfig = join(dir, "gitconfig");
+  writeFileSync(
+    gitconfig,
+    "[user]\n\tname = MTDevKit Test\n\temail = test@example.com\n[init]\n\tdefaultBranch = main\n"
+  );
+  vi.stubEnv("GIT_CONFIG_GLOBAL", gitconfig);
+  vi.stubEnv("GIT_CONFIG_NOSYSTEM", "1");
+  vi.stubEnv("MTDEVKIT_AUDIT_LOG", join(dir, "audit.jsonl"));
+  vi.stubEnv("MTDEVKIT_RUNS_DIR", join(dir, "runs"));
+
+  const template = join(dir, "template");
+  cpSync(FIXTURE_TEMPLATE, template, { recursive: true });
+  git(template, "init", "--quiet");
+  git(template, "add", "-A");
+  git(template, "commit", "--quiet", "-m", "Template");
+
+  const calls: RecordedCommand[] = [];
+  setCommandRunner(stubRunner(calls));
+  return { dir, template, calls };
+}
+
+export function removeSandbox(sandbox: Sandbox): void {
+  setCommandRunner();
+  vi.unstubAllEnvs();
+  rmSync(sandbox.dir, { recursive: true, force: true });
+}
@@ -0,0 +1,350 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { readJournal } from "../src/journal.js";
+import {
+  ScaffoldOptions,
+  ScaffoldResult,
+  scaffoldProject,
+} from "../src/scaffold.js";
+import { SCAFFOLD_STEPS } from "../src/steps.js";
+import {
+  FIXTURE_TEMPLATE,
+  Sandbox,
+  createSandbox,
+  git,
+  listFiles,
+  removeSandbox,
+} from "./sandbox.js";
+
+// End-to-end: create_flutter_project's steps against the fixture template,
+// with flutter and dart stubbed and git local, so it runs offline.
+
+let sandbox: Sandbox;
+
+/** Recorded commands as "<cwd relative to the sandbox> $ <command line>". */
+const commandLines = () =>
+  sandbox.calls.map(
+    (c) =>
+      `${c.cwd ? relative(sandbox.dir, c.cwd) : "-"} $ ${[c.command, ...c.args]
+        .join(" ")
+        .replaceAll(
+          sandbox.template,
+          "<template>"
+        )}${c.interactive ? " (pty)" : ""}`
+  );
+
+beforeAll(() => {
+  sandbox = createSandbox();
+});
+
+afterAll(() => removeSandbox(sandbox));
+
+describe("create_flutter_project", () => {
+  let result: ScaffoldResult;
+  let projectDir: string;
+  const read = (path: string) => readFileSync(join(projectDir, path), "utf-8");
+
+  beforeAll(async () => {
+    mkdirSync(join(sandbox.dir, "apps"));
+    result = await scaffoldProject({
+      name: "demo_app",
+      org: "com.acme",
+      dir: join(sandbox.dir, "apps"),
+      template: sandbox.template,
+    });
+    projectDir = result.projectDir;
+  }, 60_000);
+
+  it("runs every step", () => {
+    expect(result.error).toBeUndefined();
+    expect(result.ok).toBe(true);
+    const started = result.log.filter((line) => /^\[\d+\/\d+\] /.test(line));
+    expect(started).toHaveLength(SCAFFOLD_STEPS.length);
+  });
+
+  it("runs these commands, in this order", () => {
+    expect(commandLines()).toEqual([
+      "- $ git config --get user.name",
+      "- $ git config --get user.email",
+      "- $ dart pub global activate app_starter_plus",
+      "apps $ dart pub global run app_starter_plus:app_starter_plus --name demo_app --org com.acme --template <template>",
+      "- $ git ls-remote <template> HEAD",
+      "apps/demo_app $ git init",
+      "apps/demo_app $ git config core.hooksPath .githooks/",
+      "apps/demo_app $ flutter pub get",
+      "apps/demo_app $ flutter gen-l10n",
+      "apps/demo_app $ git add -A",
+      "apps/demo_app $ git commit -m Initial project setup before flavorizr",
+      "apps/demo_app $ flutter pub run flutter_flavorizr (pty)",
+      "apps/demo_app $ git checkout -- lib/main.dart lib/app.dart",
+      "apps/demo_app $ git config core.hooksPath .githooks/",
+    ]);
+  });
+
+  it("produces exactly these files", () => {
+    expect(listFiles(projectDir)).toEqual([
+      ".dart_tool/package_config.json",
+      ".githooks/pre-commit",
+      ".gitignore",
+      ".mtdevkit/journal.json",
+      ".mtdevkit/template.json",
+      "android/.gitignore",
+      "android/app/build.gradle.kts",
+      "android/app/flavorizr.gradle.kts",
+      "android/app/proguard-rules.pro",
+      "config/app_config_dev.example.json",
+      "config/app_config_dev.json",
+      "config/app_config_prod.example.json",
+      "config/app_config_prod.json",
+      "config/app_config_uat.example.json",
+      "config/app_config_uat.json",
+      "flavorizr.yaml",
+      "ios/Flutter/devDebug.xcconfig",
+      "ios/Flutter/devRelease.xcconfig",
+      "ios/Flutter/prodDebug.xcconfig",
+      "ios/Flutter/prodRelease.xcconfig",
+      "ios/Flutter/uatDebug.xcconfig",
+      "ios/Flutter/uatRelease.xcconfig",
+      "ios/Podfile",
+      "ios/Runner/Info.plist",
+      "l10n.yaml",
+      "lib/app.dart",
+      "lib/flavors.dart",
+      "lib/l10n/app_en.arb",
+      "lib/l10n/app_localizations.dart",
+      "lib/main.dart",
+      "lib/main_dev.dart",
+      "lib/main_prod.dart",
+      "lib/main_uat.dart",
+      "pubspec.yaml",
+    ]);
+  });
+
+  it.each([
+    "flavorizr.yaml",
+    "android/.gitignore",
+    "android/app/build.gradle.kts",
+    "android/app/proguard-rules.pro",
+    "config/app_config_dev.json",
+    "config/app_config_prod.json",
+    "config/app_config_uat.json",
+    ".gitignore",
+    ".githooks/pre-commit",
+    "ios/Podfile",
+  ])("writes %s", async (path) => {
+    await expect(read(path)).toMatchFileSnapshot(
+      `__snapshots__/demo_app/${path}`
+    );
+  });
+
+  it("writes example configs identical to the configs", () => {
+    for (const env of ["dev", "prod", "uat"]) {
+      expect(read(`config/app_config_${env}.example.json`)).toBe(
+        read(`config/app_config_${env}.json`)
+      );
+    }
+  });
+
+  it("restores the entrypoints flavorizr overwrote", () => {
+    for (const path of ["lib/main.dart", "lib/app.dart"]) {
+      expect(read(path)).toBe(
+        readFileSync(join(FIXTURE_TEMPLATE, path), "utf-8").replaceAll(
+          "mt_template",
+          "demo_app"
+        )
+      );
+    }
+  });
+
+  it("records the template commit", () => {
+    expect(JSON.parse(read(".mtdevkit/template.json"))).toEqual({
+      url: sandbox.template,
+      commit: git(sandbox.template, "rev-parse", "HEAD"),
+      org: "com.acme",
+    });
+  });
+
+  it("answers flavorizr's prompt", () => {
+    expect(result.log).toContain('  │ [auto-answered "y"]');
+  });
+
+  it("commits the template before flavorizr and keeps configs out of Git", () => {
+    expect(git(projectDir, "log", "--format=%s")).toBe(
+      "Initial project setup before flavorizr"
+    );
+    const untracked = git(
+      projectDir,
+      "status",
+      "--porcelain",
+      "--untracked-files=all"
+    );
+    expect(untracked).toContain("config/app_config_dev.example.json");
+    expect(untracked).not.toContain("config/app_config_dev.json");
+  });
+
+  it("changes nothing when the edit steps run again", async () => {
+    const files = listFiles(projectDir).filter(
+      (path) => path !== ".mtdevkit/journal.json"
+    );
+    const before = files.map(read);
+    const rerun = await scaffoldProject({
+      name: "demo_app",
+      org: "com.acme",
+      dir: join(sandbox.dir, "apps"),
+      template: sandbox.template,
+      onlySteps: [
+        "update-flavorizr",
+        "create-configs",
+        "protect-configs",
+        "configure-android",
+        "configure-ios",
+      ],
+    });
+
+    expect(rerun.error).toBeUndefined();
+    expect(rerun.log).toContain("✔ Config files already protected");
+    expect(rerun.log).toContain(
+      "✔ android/app/build.gradle.kts already configured"
+    );
+    expect(rerun.log).toContain("✔ iOS project already configured");
+    expect(files.map(read)).toEqual(before);
+  }, 60_000);
+
+  it("keeps filled-in configs when create-configs runs again", async () => {
+    const path = "config/app_config_dev.json";
+    const filled = read(path).replace(
+      '"baseUrl": ""',
+      '"baseUrl": "https://api.acme.test"'
+    );
+    writeFileSync(join(projectDir, path), filled);
+    const rerun = await scaffoldProject({
+      name: "demo_app",
+      org: "com.acme",
+      dir: join(sandbox.dir, "apps"),
+      template: sandbox.template,
+      onlySteps: ["create-configs"],
+    });
+
+    expect(rerun.error).toBeUndefined();
+    expect(rerun.log).toContain(`⚠ ${path} already exists — left unchanged`);
+    expect(read(path)).toBe(filled);
+    expect(read("config/app_config_dev.example.json")).not.toContain(
+      "https://api.acme.test"
+    );
+  }, 60_000);
+});
+
+describe("create_flutter_project with dry_run", () => {
+  it("runs nothing and writes nothing", async () => {
+    sandbox.calls.length = 0;
+    const result = await scaffoldProject({
+      name: "dry_app",
+      org: "com.acme",
+      dir: sandbox.dir,
+      template: sandbox.template,
+      dryRun: true,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(sandbox.calls).toEqual([]);
+    expect(existsSync(result.projectDir)).toBe(false);
+    expect(result.log).toContain(
+      "  [dry-run] dart pub global run app_starter_plus:app_starter_plus --name dry_app --org com.acme --template " +
+        sandbox.template
+    );
+  });
+});
+
+/** Scaffold into the sandbox with flavorizr failing. */
+async function scaffoldWithFailingFlavorizr(
+  opts: Omit<ScaffoldOptions, "org" | "dir" | "template">
+): Promise<ScaffoldResult> {
+  vi.stubEnv("FLUTTER_STUB_FAIL", "pub run flutter_flavorizr");
+  try {
+    return await scaffoldProject({
+      org: "com.acme",
+      dir: sandbox.dir,
+      template: sandbox.template,
+      ...opts,
+    });
+  } finally {
+    vi.stubEnv("FLUTTER_STUB_FAIL", "");
+  }
+}
+
+describe("create_flutter_project with on_failure=rollback", () => {
+  it("deletes a project the failed run created", async () => {
+    const result = await scaffoldWithFailingFlavorizr({
+      name: "rollback_app",
+      onFailure: "rollback",
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.failedStep?.id).toBe("flavorizr");
+    expect(result.resumable).toBe(false);
+    expect(existsSync(result.projectDir)).toBe(false);
+  }, 60_000);
+
+  it("restores the files of an existing project and records the failure", async () => {
+    const created = await scaffoldProject({
+      name: "restored_app",
+      org: "com.acme",
+      dir: sandbox.dir,
+      template: sandbox.template,
+    });
+    expect(created.error).toBeUndefined();
+    const flavorizr = join(created.projectDir, "flavorizr.yaml");
+    const before = readFileSync(flavorizr, "utf-8");
+
+    const result = await scaffoldWithFailingFlavorizr({
+      name: "restored_app",
+      flavors: [
+        { name: "staging", displayNamePrefix: "", applicationIdSuffix: ".stg" },
+      ],
+      onlySteps: ["update-flavorizr", "flavorizr"],
+      onFailure: "rollback",
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.failedStep?.id).toBe("flavorizr");
+    expect(readFileSync(flavorizr, "utf-8")).toBe(before);
+    expect(readJournal(result.projectDir)?.failed).toMatchObject({
+      id: "flavorizr",
+      error: expect.stringContaining("pub run flutter_flavorizr"),
+    });
+  }, 60_000);
+});
+
+describe("create_flutter_project with resume", () => {
+  it("continues from the failed step", async () => {
+    const failed = await scaffoldWithFailingFlavorizr({ name: "resumed_app" });
+    expect(failed.ok).toBe(false);
+    expect(failed.resumable).toBe(true);
+    expect(readJournal(failed.projectDir)?.failed?.id).toBe("flavorizr");
+
+    sandbox.calls.length = 0;
+    const resumed = await scaffoldProject({
+      name: "resumed_app",
+      org: "com.acme",
+      dir: sandbox.dir,
+      resume: true,
+    });
+
+    expect(resumed.error).toBeUndefined();
+    const skipped = resumed.log.filter(
+      (line) => line === "↷ Already completed in a previous run — skipping"
+    );
+    expect(skipped).toHaveLength(
+      SCAFFOLD_STEPS.findIndex((step) => step.id === "flavorizr")
+    );
+    const commands = sandbox.calls.map((c) => [c.command, ...c.args].join(" "));
+    expect(commands).not.toContain("git init");
+    expect(commands).toContain("flutter pub run flutter_flavorizr");
+    const journal = readJournal(resumed.projectDir);
+    expect(journal?.failed).toBeUndefined();
+    expect(journal?.completed.map((e) => e.id)).toEqual(
+      SCAFFOLD_STEPS.map((step) => step.id)
+    );
+  }, 60_000);
+});
@@ -0,0 +1,67 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  LoggingLevel,
+  LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "../src/server.js";
+import { Sandbox, createSandbox, removeSandbox } from "./sandbox.js";
+
+// The MCP server in-process, over an in-memory transport, with the
+// sandbox's stubbed commands.
+
+let sandbox: Sandbox;
+
+beforeAll(() => {
+  sandbox = createSandbox();
+});
+
+afterAll(() => removeSandbox(sandbox));
+
+async function connect() {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  const levels: LoggingLevel[] = [];
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => {
+    levels.push(n.params.level);
+  });
+  return { client, levels };
+}
+
+describe("log notifications", () => {
+  const scaffold = (client: Client, name: string) =>
+    client.callTool({
+      name: "create_flutter_project",
+      arguments: {
+        name,
+        org: "com.acme",
+        dir: sandbox.dir,
+        template: `file://${sandbox.template}`,
+      },
+    });
+
+  it("include command output by default", async () => {
+    const { client, levels } = await connect();
+    const result = await scaffold(client, "loud_app");
+
+    expect(result.isError).toBeFalsy();
+    expect(levels).toContain("info");
+    expect(levels).toContain("debug");
+    await client.close();
+  }, 60_000);
+
+  it("respect the level the client sets", async () => {
+    const { client, levels } = await connect();
+    await client.setLoggingLevel("info");
+    const result = await scaffold(client, "quiet_app");
+
+    expect(result.isError).toBeFalsy();
+    expect(levels).toContain("info");
+    expect(levels).not.toContain("debug");
+    await client.close();
+  }, 60_000);
+});
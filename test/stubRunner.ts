@@ -0,0 +1,50 @@
+import { fileURLToPath } from "node:url";
+import { CommandRunner, defaultRunner } from "../src/exec.js";
+
+// ─── Stub command runner ───────────────────────────────────────────
+// Runs flutter, dart and keytool as the stub scripts in fixtures/bin (with this
+// Node binary, so nothing has to be on PATH) and git as the real git,
+// which only ever touches local repositories here. fvm does not exist.
+// Every command is recorded before it runs.
+
+const STUBS: Record<string, string> = {
+  dart: fileURLToPath(new URL("./fixtures/bin/dart.mjs", import.meta.url)),
+  flutter: fileURLToPath(
+    new URL("./fixtures/bin/flutter.mjs", import.meta.url)
+  ),
+  keytool: fileURLToPath(
+    new URL("./fixtures/bin/keytool.mjs", import.meta.url)
+  ),
+};
+
+export interface RecordedCommand {
+  command: string;
+  args: string[];
+  cwd?: string;
+  /** Run through runInteractive(), in a pseudo-terminal when available. */
+  interactive: boolean;
+}
+
+const resolve = (command: string, args: string[]) =>
+  STUBS[command]
+    ? { command: process.execPath, args: [STUBS[command], ...args] }
+    : { command, args };
+
+export function stubRunner(calls: RecordedCommand[]): CommandRunner {
+  return {
+    run(command, args, opts) {
+      calls.push({ command, args, cwd: opts.cwd, interactive: false });
+      const stub = resolve(command, args);
+      return defaultRunner.run(stub.command, stub.args, opts);
+    },
+    runInteractive(command, args, opts) {
+      calls.push({ command, args, cwd: opts.cwd, interactive: true });
+      const stub = resolve(command, args);
+      return defaultRunner.runInteractive(stub.command, stub.args, opts);
+    },
+    async exists(command) {
+      if (STUBS[command]) return true;
+      return command === "git" && defaultRunner.exists(command);
+    },
+  };
+}
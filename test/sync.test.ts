@@ -0,0 +1,175 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { scaffoldProject } from "../src/scaffold.js";
+import { syncWithTemplate } from "../src/sync.js";
+import { Sandbox, createSandbox, git, removeSandbox } from "./sandbox.js";
+
+// sync_with_template against a project scaffolded from the fixture
+// template, after a second template commit that touches files the project
+// left alone, changed elsewhere, and changed in the same place.
+
+let sandbox: Sandbox;
+let projectDir: string;
+let latest: string;
+
+const read = (path: string) => readFileSync(join(projectDir, path), "utf-8");
+
+function editTemplate(path: string, edit: (text: string) => string | null) {
+  const file = join(sandbox.template, path);
+  const text = existsSync(file) ? readFileSync(file, "utf-8") : "";
+  const result = edit(text);
+  if (result === null) {
+    rmSync(file);
+  } else {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, result);
+  }
+}
+
+beforeAll(async () => {
+  sandbox = createSandbox();
+  const result = await scaffoldProject({
+    name: "demo_app",
+    org: "com.acme",
+    dir: sandbox.dir,
+    template: sandbox.template,
+  });
+  expect(result.error).toBeUndefined();
+  projectDir = result.projectDir;
+  git(projectDir, "add", "-A");
+  git(projectDir, "commit", "--quiet", "-m", "Scaffold");
+
+  editTemplate("lib/l10n/app_en.arb", (text) =>
+    text.replace("\n}", ',\n  "retry": "Retry"\n}')
+  );
+  editTemplate("lib/core/theme.dart", () => "// App theme\n");
+  editTemplate("l10n.yaml", () => null);
+  editTemplate("android/app/build.gradle.kts", (text) =>
+    text.replace("minSdk = flutter.minSdkVersion", "minSdk = 23")
+  );
+  editTemplate("flavorizr.yaml", (text) =>
+    text.replace("[DEV] MT Template", "MT Template (dev)")
+  );
+  git(sandbox.template, "add", "-A");
+  git(sandbox.template, "commit", "--quiet", "-m", "Template update");
+  latest = git(sandbox.template, "rev-parse", "HEAD");
+}, 60_000);
+
+afterAll(() => removeSandbox(sandbox));
+
+const EXPECTED_CHANGES = [
+  { path: "android/app/build.gradle.kts", change: "merged" },
+  { path: "l10n.yaml", change: "deleted" },
+  { path: "lib/core/theme.dart", change: "added" },
+  { path: "lib/l10n/app_en.arb", change: "updated" },
+];
+
+const EXPECTED_CONFLICTS = [
+  {
+    path: "flavorizr.yaml",
+    reason: "changed in both the project and the template",
+  },
+];
+
+describe("sync_with_template", () => {
+  it("reports changes and conflicts without applying them in a dry run", async () => {
+    const head = git(projectDir, "rev-parse", "HEAD");
+    const result = await syncWithTemplate({ projectDir, dryRun: true });
+
+    expect(result.templateCommit).toBe(latest);
+    expect(result.branch).toBeNull();
+    expect(result.changes).toEqual(EXPECTED_CHANGES);
+    expect(result.conflicts).toEqual(EXPECTED_CONFLICTS);
+    expect(git(projectDir, "rev-parse", "HEAD")).toBe(head);
+    expect(git(projectDir, "status", "--porcelain")).toBe("");
+  }, 60_000);
+
+  it("commits the clean changes on a new branch", async () => {
+    const flavorizr = read("flavorizr.yaml");
+    const result = await syncWithTemplate({ projectDir });
+
+    const branch = `template-sync/${latest.slice(0, 7)}`;
+    expect(result.branch).toBe(branch);
+    expect(result.changes).toEqual(EXPECTED_CHANGES);
+    expect(result.conflicts).toEqual(EXPECTED_CONFLICTS);
+    expect(git(projectDir, "branch", "--show-current")).toBe(branch);
+    expect(git(projectDir, "log", "-1", "--format=%s")).toBe(
+      `chore: sync with template ${latest.slice(0, 7)}`
+    );
+    expect(git(projectDir, "status", "--porcelain")).toBe("");
+
+    expect(read("lib/l10n/app_en.arb")).toContain('"retry": "Retry"');
+    expect(read("lib/core/theme.dart")).toBe("// App theme\n");
+    expect(existsSync(join(projectDir, "l10n.yaml"))).toBe(false);
+    // The template's change merged with the scaffold's Gradle patch.
+    expect(read("android/app/build.gradle.kts")).toContain("minSdk = 23");
+    expect(read("android/app/build.gradle.kts")).toContain(
+      "isCoreLibraryDesugaringEnabled = true"
+    );
+    expect(read("flavorizr.yaml")).toBe(flavorizr);
+    expect(JSON.parse(read(".mtdevkit/template.json")).commit).toBe(latest);
+  }, 60_000);
+
+  it("has nothing to do once the template commit is recorded", async () => {
+    const result = await syncWithTemplate({ projectDir });
+
+    expect(result.baseCommit).toBe(latest);
+    expect(result.branch).toBeNull();
+    expect(result.log).toContain(
+      `✔ Already up to date with the template (${latest.slice(0, 7)})`
+    );
+  }, 60_000);
+
+  it("checks the recorded template URL before cloning it", async () => {
+    const checked: string[] = [];
+    await expect(
+      syncWithTemplate({
+        projectDir,
+        checkTemplate: (url) => {
+          checked.push(url);
+          throw new Error(`${url} is outside the allowed directories`);
+        },
+      })
+    ).rejects.toThrow("is outside the allowed directories");
+    expect(checked).toEqual([sandbox.template]);
+  });
+
+  it("refuses to run with uncommitted changes", async () => {
+    writeFileSync(join(projectDir, "lib/main.dart"), "// edited\n");
+    await expect(syncWithTemplate({ projectDir })).rejects.toThrow(
+      "has uncommitted changes"
+    );
+    git(projectDir, "checkout", "--", "lib/main.dart");
+  });
+
+  it("leaves no branch or changes behind when the commit fails", async () => {
+    editTemplate("lib/core/theme.dart", () => "// App theme, v2\n");
+    git(sandbox.template, "commit", "--quiet", "-am", "Theme update");
+    const next = git(sandbox.template, "rev-parse", "HEAD");
+    const previous = git(projectDir, "branch", "--show-current");
+    const head = git(projectDir, "rev-parse", "HEAD");
+
+    // Git refuses to commit with an empty author name.
+    git(projectDir, "config", "user.name", "");
+    try {
+      await expect(syncWithTemplate({ projectDir })).rejects.toThrow();
+    } finally {
+      git(projectDir, "config", "--unset", "user.name");
+    }
+
+    expect(git(projectDir, "branch", "--show-current")).toBe(previous);
+    expect(git(projectDir, "rev-parse", "HEAD")).toBe(head);
+    expect(git(projectDir, "status", "--porcelain")).toBe("");
+    expect(
+      git(projectDir, "branch", "--list", `template-sync/${next.slice(0, 7)}`)
+    ).toBe("");
+    expect(read("lib/core/theme.dart")).toBe("// App theme\n");
+  }, 60_000);
+});